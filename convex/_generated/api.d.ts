@@ -14,12 +14,60 @@ import type * as agent_prompts from "../agent/prompts.js";
 import type * as agent_tools_domainTools from "../agent/tools/domainTools.js";
 import type * as agent_tools_selfModifyTools from "../agent/tools/selfModifyTools.js";
 import type * as agent_tools_themeTools from "../agent/tools/themeTools.js";
+import type * as availabilityCache from "../availabilityCache.js";
+import type * as crons from "../crons.js";
+import type * as domainCheckJobs from "../domainCheckJobs.js";
 import type * as domains from "../domains.js";
+import type * as generation_blends from "../generation/blends.js";
+import type * as generation_engine from "../generation/engine.js";
+import type * as generation_patterns from "../generation/patterns.js";
+import type * as generation_strategies from "../generation/strategies.js";
+import type * as generation_syllables from "../generation/syllables.js";
+import type * as generation_vibes from "../generation/vibes.js";
+import type * as http from "../http.js";
+import type * as lib_currency from "../lib/currency.js";
+import type * as lib_domainName from "../lib/domainName.js";
+import type * as lib_idn from "../lib/idn.js";
+import type * as lib_pricing from "../lib/pricing.js";
+import type * as lib_publicSuffix from "../lib/publicSuffix.js";
+import type * as lib_punycode from "../lib/punycode.js";
+import type * as lib_recheckInterval from "../lib/recheckInterval.js";
+import type * as lib_tldCatalog from "../lib/tldCatalog.js";
+import type * as mockScenarios from "../mockScenarios.js";
 import type * as modifications from "../modifications.js";
+import type * as notifications from "../notifications.js";
+import type * as providerHealth from "../providerHealth.js";
+import type * as rateLimiter from "../rateLimiter.js";
+import type * as registrars_compare from "../registrars/compare.js";
+import type * as registrars_dns from "../registrars/dns.js";
+import type * as registrars_eppStatus from "../registrars/eppStatus.js";
+import type * as registrars_godaddy from "../registrars/godaddy.js";
+import type * as registrars_health from "../registrars/health.js";
+import type * as registrars_http from "../registrars/http.js";
+import type * as registrars_index from "../registrars/index.js";
+import type * as registrars_mock from "../registrars/mock.js";
+import type * as registrars_namecheap from "../registrars/namecheap.js";
+import type * as registrars_premium from "../registrars/premium.js";
+import type * as registrars_rdap from "../registrars/rdap.js";
+import type * as registrars_scenarios_index from "../registrars/scenarios/index.js";
+import type * as registrars_types from "../registrars/types.js";
+import type * as registrars_whois_client from "../registrars/whois/client.js";
+import type * as registrars_whois_index from "../registrars/whois/index.js";
+import type * as registrars_whois_parsers_de from "../registrars/whois/parsers/de.js";
+import type * as registrars_whois_parsers_eu from "../registrars/whois/parsers/eu.js";
+import type * as registrars_whois_parsers_generic from "../registrars/whois/parsers/generic.js";
+import type * as registrars_whois_parsers_index from "../registrars/whois/parsers/index.js";
+import type * as registrars_whois_parsers_it from "../registrars/whois/parsers/it.js";
+import type * as registrars_whois_parsers_jp from "../registrars/whois/parsers/jp.js";
+import type * as registrars_whois_parsers_types from "../registrars/whois/parsers/types.js";
+import type * as registrars_whois_parsers_uk from "../registrars/whois/parsers/uk.js";
 import type * as strategies from "../strategies.js";
 import type * as themes from "../themes.js";
 import type * as threads from "../threads.js";
+import type * as tldCatalog from "../tldCatalog.js";
 import type * as users from "../users.js";
+import type * as vibeProfiles from "../vibeProfiles.js";
+import type * as watchlist from "../watchlist.js";
 
 import type {
   ApiFromModules,
@@ -34,12 +82,60 @@ declare const fullApi: ApiFromModules<{
   "agent/tools/domainTools": typeof agent_tools_domainTools;
   "agent/tools/selfModifyTools": typeof agent_tools_selfModifyTools;
   "agent/tools/themeTools": typeof agent_tools_themeTools;
+  availabilityCache: typeof availabilityCache;
+  crons: typeof crons;
+  domainCheckJobs: typeof domainCheckJobs;
   domains: typeof domains;
+  "generation/blends": typeof generation_blends;
+  "generation/engine": typeof generation_engine;
+  "generation/patterns": typeof generation_patterns;
+  "generation/strategies": typeof generation_strategies;
+  "generation/syllables": typeof generation_syllables;
+  "generation/vibes": typeof generation_vibes;
+  http: typeof http;
+  "lib/currency": typeof lib_currency;
+  "lib/domainName": typeof lib_domainName;
+  "lib/idn": typeof lib_idn;
+  "lib/pricing": typeof lib_pricing;
+  "lib/publicSuffix": typeof lib_publicSuffix;
+  "lib/punycode": typeof lib_punycode;
+  "lib/recheckInterval": typeof lib_recheckInterval;
+  "lib/tldCatalog": typeof lib_tldCatalog;
+  mockScenarios: typeof mockScenarios;
   modifications: typeof modifications;
+  notifications: typeof notifications;
+  providerHealth: typeof providerHealth;
+  rateLimiter: typeof rateLimiter;
+  "registrars/compare": typeof registrars_compare;
+  "registrars/dns": typeof registrars_dns;
+  "registrars/eppStatus": typeof registrars_eppStatus;
+  "registrars/godaddy": typeof registrars_godaddy;
+  "registrars/health": typeof registrars_health;
+  "registrars/http": typeof registrars_http;
+  "registrars/index": typeof registrars_index;
+  "registrars/mock": typeof registrars_mock;
+  "registrars/namecheap": typeof registrars_namecheap;
+  "registrars/premium": typeof registrars_premium;
+  "registrars/rdap": typeof registrars_rdap;
+  "registrars/scenarios/index": typeof registrars_scenarios_index;
+  "registrars/types": typeof registrars_types;
+  "registrars/whois/client": typeof registrars_whois_client;
+  "registrars/whois/index": typeof registrars_whois_index;
+  "registrars/whois/parsers/de": typeof registrars_whois_parsers_de;
+  "registrars/whois/parsers/eu": typeof registrars_whois_parsers_eu;
+  "registrars/whois/parsers/generic": typeof registrars_whois_parsers_generic;
+  "registrars/whois/parsers/index": typeof registrars_whois_parsers_index;
+  "registrars/whois/parsers/it": typeof registrars_whois_parsers_it;
+  "registrars/whois/parsers/jp": typeof registrars_whois_parsers_jp;
+  "registrars/whois/parsers/types": typeof registrars_whois_parsers_types;
+  "registrars/whois/parsers/uk": typeof registrars_whois_parsers_uk;
   strategies: typeof strategies;
   themes: typeof themes;
   threads: typeof threads;
+  tldCatalog: typeof tldCatalog;
   users: typeof users;
+  vibeProfiles: typeof vibeProfiles;
+  watchlist: typeof watchlist;
 }>;
 
 /**
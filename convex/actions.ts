@@ -1,218 +1,393 @@
+"use node";
+
+// Node runtime: the availability providers open raw sockets (WHOIS port 43)
 import { v } from "convex/values";
-import { action, internalAction } from "./_generated/server";
-import { internal } from "./_generated/api";
+import { action, internalAction, type ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { parseDomain, parseDomains } from "./lib/domainName";
+import { isIdn, toUnicodeDomain } from "./lib/idn";
+import type { TldCatalogEntry } from "./lib/tldCatalog";
 import { domainBot } from "./agent";
+import { buildSystemPrompt } from "./agent/prompts";
+import {
+  type AcquireTokens,
+  checkWithFallback,
+  comparePrices,
+  createDnsResolverFromEnv,
+  type DomainCheckReport,
+  type DomainCheckResult,
+  getProviderChain,
+  type PriceComparison,
+  type ProviderHealthHooks,
+  runAvailabilityCheck,
+} from "./registrars";
 
-// GoDaddy API configuration
-const GODADDY_API_URL = "https://api.godaddy.com/v1/domains/available";
-
-// Concurrency control for parallel requests
-const MAX_CONCURRENT_REQUESTS = 5;
-const MAX_RETRIES = 2;
-const BASE_DELAY_MS = 300;
-const SINGLE_DOMAIN_TIMEOUT_MS = 5000; // 5 second timeout per domain
-
-export interface DomainCheckResult {
-  domain: string;
-  available: boolean;
-  premium: boolean;
-  price?: number;
-  errorMessage?: string;
-}
+export type { DomainCheckReport, DomainCheckResult, PriceComparison } from "./registrars";
 
-/**
- * Sleep helper for delays
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// Check up to 8 domains inline to prevent long wait times; the rest go to a background job
+const MAX_DOMAINS_PER_CHECK = 8;
 
-/**
- * Fetch with exponential backoff retry
- */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = MAX_RETRIES
-): Promise<Response> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // Add timeout using AbortController
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), SINGLE_DOMAIN_TIMEOUT_MS);
+// How many domains each background job run checks before rescheduling itself
+const JOB_CHUNK_SIZE = 25;
 
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-      });
+// Longest we'll queue on a provider's rate limit before moving down the chain
+const MAX_RATE_LIMIT_WAIT_MS = 15000;
 
-      clearTimeout(timeoutId);
+// Watched domains re-checked per cron tick; the rest stay due for the next one
+const WATCHLIST_BATCH_SIZE = 25;
 
-      if (response.status === 429) {
-        const delay = BASE_DELAY_MS * Math.pow(2, attempt);
-        console.log(`Rate limited, waiting ${delay}ms before retry ${attempt + 1}/${maxRetries}`);
-        await sleep(delay);
-        continue;
-      }
+// Stale saved domains re-verified per cron tick
+const SAVED_RECHECK_BATCH_SIZE = 25;
 
-      return response;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      if (lastError.name === "AbortError") {
-        console.log(`Request timed out after ${SINGLE_DOMAIN_TIMEOUT_MS}ms`);
-        break; // Don't retry on timeout
-      }
-      const delay = BASE_DELAY_MS * Math.pow(2, attempt);
-      console.log(`Request failed, waiting ${delay}ms before retry ${attempt + 1}/${maxRetries}`);
-      await sleep(delay);
+// Only the registry reports expiry dates and EPP statuses such as pendingDelete
+const REGISTRY_PROVIDER_ORDER = ["rdap", "whois"];
+
+/**
+ * Check domain availability: cache, DNS pre-filter, then the configured provider chain
+ * (internal - called by agent tools). Anything past the inline cap is queued as a
+ * domainCheckJob and its id returned with the first results.
+ */
+export const checkDomains = internalAction({
+  args: {
+    domains: v.array(v.string()),
+    forceRefresh: v.optional(v.boolean()),
+    threadId: v.optional(v.string()),
+  },
+  handler: async (ctx, { domains, forceRefresh, threadId }): Promise<DomainCheckReport> => {
+    // Providers and the cache work on the registrable ASCII (punycode) form;
+    // inputs that aren't domains come back in `invalid` for the agent to explain
+    const parsed = parseDomains(domains);
+    const uniqueDomains = parsed.domains.map((domain) => domain.domain);
+    const invalid = parsed.invalid.length > 0 ? parsed.invalid : undefined;
+    const domainsToCheck = uniqueDomains.slice(0, MAX_DOMAINS_PER_CHECK);
+    const overflow = uniqueDomains.slice(MAX_DOMAINS_PER_CHECK);
+    console.log(
+      `Checking ${domainsToCheck.length} domains, queueing ${overflow.length}, rejected ${parsed.invalid.length}`
+    );
+
+    const mockScenario = await scenarioForThread(ctx, threadId);
+    const report = await checkWithCache(ctx, domainsToCheck, forceRefresh ?? false, mockScenario);
+    if (overflow.length === 0) {
+      return { ...report, invalid };
     }
-  }
 
-  throw lastError || new Error("Max retries exceeded");
-}
+    const jobId = await ctx.runMutation(internal.domainCheckJobs.create, {
+      domains: overflow,
+      threadId,
+    });
+    return { ...report, invalid, job: { jobId, queued: overflow.length } };
+  },
+});
 
 /**
- * Process items in parallel with concurrency limit
+ * Background worker: check the next chunk of a domainCheckJob, then reschedule itself
  */
-async function parallelMap<T, R>(
-  items: T[],
-  fn: (item: T) => Promise<R>,
-  concurrency: number
-): Promise<R[]> {
-  const results: R[] = new Array(items.length);
-  let index = 0;
-
-  async function worker(): Promise<void> {
-    while (index < items.length) {
-      const currentIndex = index++;
-      results[currentIndex] = await fn(items[currentIndex]);
+export const processDomainCheckJob = internalAction({
+  args: { jobId: v.id("domainCheckJobs") },
+  handler: async (ctx, { jobId }) => {
+    const domains = await ctx.runQuery(internal.domainCheckJobs.nextChunk, {
+      jobId,
+      limit: JOB_CHUNK_SIZE,
+    });
+    if (domains.length === 0) {
+      return;
     }
-  }
 
-  const workers = Array(Math.min(concurrency, items.length))
-    .fill(null)
-    .map(() => worker());
+    try {
+      const job = await ctx.runQuery(api.domainCheckJobs.get, { jobId });
+      const mockScenario = await scenarioForThread(ctx, job?.threadId);
+      const report = await checkWithCache(ctx, domains, false, mockScenario);
+      const { remaining } = await ctx.runMutation(internal.domainCheckJobs.recordResults, {
+        jobId,
+        results: report.results,
+      });
 
-  await Promise.all(workers);
-  return results;
-}
+      if (remaining > 0) {
+        await ctx.scheduler.runAfter(0, internal.actions.processDomainCheckJob, { jobId });
+      }
+    } catch (error) {
+      console.error(`Domain check job ${jobId} failed:`, error);
+      await ctx.runMutation(internal.domainCheckJobs.markFailed, {
+        jobId,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+});
 
 /**
- * Check domain availability via GoDaddy API (internal - called by agent tools)
+ * Retry domains whose last answer was "unknown" (called from the chat UI).
+ * Skips the cache so a stale provider error isn't served back. When the domains
+ * came from a background job, its stored results are updated too.
  */
-export const checkDomains = internalAction({
+export const recheckDomains = action({
   args: {
     domains: v.array(v.string()),
+    jobId: v.optional(v.id("domainCheckJobs")),
+    threadId: v.optional(v.string()),
   },
-  handler: async (_ctx, { domains }): Promise<DomainCheckResult[]> => {
-    // Limit to 8 domains max to prevent long wait times
-    const domainsToCheck = domains.slice(0, 8);
-    console.log(`Checking ${domainsToCheck.length} domains (of ${domains.length} requested)`);
-
-    const apiKey = process.env.GODADDY_API_KEY;
-    const apiSecret = process.env.GODADDY_API_SECRET;
+  handler: async (ctx, { domains, jobId, threadId }): Promise<DomainCheckResult[]> => {
+    const domainsToCheck = parseDomains(domains)
+      .domains.map((domain) => domain.domain)
+      .slice(0, MAX_DOMAINS_PER_CHECK);
+    const mockScenario = await scenarioForThread(ctx, threadId);
+    const report = await checkWithCache(ctx, domainsToCheck, true, mockScenario);
+
+    if (jobId) {
+      await ctx.runMutation(internal.domainCheckJobs.replaceResults, {
+        jobId,
+        results: report.results,
+      });
+    }
+    return report.results;
+  },
+});
 
-    if (!apiKey || !apiSecret) {
-      console.log("GoDaddy API not configured, using mock mode");
-      return mockDomainAvailability(domainsToCheck);
+/**
+ * Re-verify a saved domain and store the fresh status on it
+ */
+export const recheckSavedDomain = action({
+  args: { domainId: v.id("savedDomains") },
+  handler: async (ctx, { domainId }): Promise<DomainCheckResult | null> => {
+    const saved = await ctx.runQuery(internal.domains.getInternal, { domainId });
+    if (!saved) {
+      return null;
     }
 
-    try {
-      return await checkDomainsWithGoDaddy(domainsToCheck, apiKey, apiSecret);
-    } catch (error) {
-      console.error("GoDaddy API error, falling back to mock:", error);
-      return mockDomainAvailability(domainsToCheck);
+    const report = await checkWithCache(ctx, [saved.domain], true);
+    const result = report.results[0];
+    if (result) {
+      await recordSavedDomainCheck(ctx, domainId, result);
     }
+    return result ?? null;
   },
 });
 
-async function checkDomainsWithGoDaddy(
-  domains: string[],
-  apiKey: string,
-  apiSecret: string
-): Promise<DomainCheckResult[]> {
-  const checkSingleDomain = async (domain: string): Promise<DomainCheckResult> => {
-    try {
-      const response = await fetchWithRetry(
-        `${GODADDY_API_URL}?domain=${encodeURIComponent(domain)}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `sso-key ${apiKey}:${apiSecret}`,
-            Accept: "application/json",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        return {
-          domain,
-          available: false,
-          premium: false,
-          errorMessage: `API error: ${response.status}`,
-        };
+/**
+ * Saved-domain worker (run by the cron): re-verify a batch of saved domains whose
+ * owner's re-check interval has passed, so /saved doesn't show stale availability
+ */
+export const recheckStaleSavedDomains = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const stale: Doc<"savedDomains">[] = await ctx.runQuery(internal.domains.listStaleInternal, {
+      limit: SAVED_RECHECK_BATCH_SIZE,
+    });
+    if (stale.length === 0) {
+      return;
+    }
+
+    const domains = [...new Set(stale.map((saved) => saved.domain))];
+    const report = await checkWithCache(ctx, domains, true);
+    const results = new Map(report.results.map((result) => [result.domain, result] as const));
+    console.log(`Re-checked ${domains.length} stale saved domains`);
+
+    for (const saved of stale) {
+      const result = results.get(saved.domain);
+      if (result) {
+        await recordSavedDomainCheck(ctx, saved._id, result);
       }
+    }
+  },
+});
 
-      const data = await response.json();
-      return parseGoDaddyResult(domain, data);
-    } catch (error) {
-      return {
-        domain,
-        available: false,
-        premium: false,
-        errorMessage: error instanceof Error ? error.message : "Unknown error",
-      };
+async function recordSavedDomainCheck(
+  ctx: ActionCtx,
+  domainId: Id<"savedDomains">,
+  result: DomainCheckResult
+): Promise<void> {
+  await ctx.runMutation(internal.domains.updateStatusInternal, {
+    domainId,
+    status: result.status,
+    premium: result.premium,
+    premiumReason: result.premiumReason,
+    price: result.price,
+    pricing: result.pricing,
+    simulated: result.simulated,
+  });
+}
+
+/**
+ * Watchlist worker (run by the cron and when a domain is first watched): ask the registry
+ * about every watched domain that is due and record the answer
+ */
+export const checkWatchedDomains = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const due: Doc<"watchedDomains">[] = await ctx.runQuery(internal.watchlist.dueForCheck, {
+      limit: WATCHLIST_BATCH_SIZE,
+    });
+    if (due.length === 0) {
+      return;
     }
-  };
 
-  return parallelMap(domains, checkSingleDomain, MAX_CONCURRENT_REQUESTS);
+    const domains = [...new Set(due.map((watched) => watched.domain))];
+    const report = await checkWithFallback(
+      domains,
+      getProviderChain(REGISTRY_PROVIDER_ORDER),
+      acquireFromSharedBuckets(ctx),
+      healthFromTable(ctx)
+    );
+    const results = new Map(report.results.map((result) => [result.domain, result] as const));
+    console.log(`Watchlist: checked ${domains.length} domains`);
+
+    for (const watched of due) {
+      const result = results.get(watched.domain);
+      await ctx.runMutation(internal.watchlist.recordCheck, {
+        watchedDomainId: watched._id,
+        status: result?.status ?? "unknown",
+        registryStatuses: result?.registryStatuses,
+        registrar: result?.registrar,
+        expiresAt: result?.expiresAt,
+      });
+    }
+  },
+});
+
+// A thread pinned to a mock scenario (see mockScenarios.setForThread)
+async function scenarioForThread(
+  ctx: ActionCtx,
+  threadId: string | undefined
+): Promise<string | undefined> {
+  return threadId ? await ctx.runQuery(internal.mockScenarios.getForThread, { threadId }) : undefined;
 }
 
-function parseGoDaddyResult(
-  domain: string,
-  data: {
-    available?: boolean;
-    definitive?: boolean;
-    price?: number;
-    currency?: string;
+/**
+ * Serve what we can from availabilityCache and only send misses to the network.
+ * A thread-pinned mock scenario is answered by the mock alone: no cache either way, no DNS
+ * pre-filter, no real providers and no circuit breaker, so its outcomes are the fixture's
+ * and its simulated failures never leak into other threads.
+ */
+async function checkWithCache(
+  ctx: ActionCtx,
+  domains: string[],
+  forceRefresh: boolean,
+  mockScenario?: string
+): Promise<DomainCheckReport> {
+  const pinned = mockScenario !== undefined;
+  const useCache = !pinned;
+  const cached: DomainCheckResult[] =
+    forceRefresh || !useCache
+      ? []
+      : await ctx.runQuery(internal.availabilityCache.lookup, { domains });
+  const cachedDomains = new Set(cached.map((result) => result.domain));
+  const misses = domains.filter((domain) => !cachedDomains.has(domain));
+
+  let report: DomainCheckReport = { results: [], stages: [] };
+  if (misses.length > 0) {
+    const chain = pinned ? getProviderChain(["mock"], { mockScenario }) : getProviderChain();
+    console.log(`Provider chain: ${chain.map((p) => p.id).join(" -> ")}`);
+
+    report = await runAvailabilityCheck(misses, {
+      chain,
+      resolver: pinned ? null : createDnsResolverFromEnv(),
+      acquire: acquireFromSharedBuckets(ctx),
+      health: pinned ? undefined : healthFromTable(ctx),
+    });
+    if (useCache) {
+      await ctx.runMutation(internal.availabilityCache.store, { results: report.results });
+    }
   }
-): DomainCheckResult {
-  const available = data.available === true;
-  const price = data.price ? data.price / 1000000 : undefined;
-  const premium = available && price !== undefined && price > 50;
 
+  await ctx.runMutation(internal.availabilityCache.recordUsage, {
+    hits: cached.length,
+    misses: misses.length,
+  });
+
+  const stages = [
+    { stage: "cache", input: domains.length, resolved: cached.length },
+    ...report.stages,
+  ];
+  console.log(`Stages: ${stages.map((s) => `${s.stage} ${s.resolved}/${s.input}`).join(", ")}`);
+
+  const results = new Map(
+    [...cached, ...report.results].map((result) => [result.domain, withUnicode(result)] as const)
+  );
   return {
-    domain,
-    available,
-    premium,
-    price: premium ? price : undefined,
+    results: domains.flatMap((domain) => results.get(domain) ?? []),
+    stages,
+    rateLimits: report.rateLimits,
+    openCircuits: report.openCircuits,
   };
 }
 
-function mockDomainAvailability(domains: string[]): DomainCheckResult[] {
-  return domains.map((domain) => {
-    const name = domain.split(".")[0];
-    const tld = domain.slice(domain.indexOf("."));
+// Internationalized domains also carry their Unicode form for display
+function withUnicode(result: DomainCheckResult): DomainCheckResult {
+  return isIdn(result.domain) ? { ...result, unicode: toUnicodeDomain(result.domain) } : result;
+}
 
-    const isLikelyTaken =
-      name.length <= 4 ||
-      (tld === ".com" && name.length <= 8) ||
-      /^(get|my|the|go)[a-z]+$/.test(name);
+/**
+ * Price one domain at every configured registrar (called from the comparison drawer)
+ */
+export const compareDomainPrices = action({
+  args: {
+    domain: v.string(),
+    currency: v.optional(v.string()),
+  },
+  handler: async (ctx, { domain, currency }): Promise<PriceComparison> => {
+    return comparePricesWithLimits(ctx, domain, currency);
+  },
+});
 
-    const isPremium = name.length <= 3 || /^[a-z]{4}$/.test(name);
-    const hash = [...domain].reduce((acc, c) => acc + c.charCodeAt(0), 0);
-    const randomFactor = hash % 100;
-    const available = !isLikelyTaken && randomFactor > 30;
+// Same comparison for the agent tool
+export const compareDomainPricesInternal = internalAction({
+  args: {
+    domain: v.string(),
+    currency: v.optional(v.string()),
+  },
+  handler: async (ctx, { domain, currency }): Promise<PriceComparison> => {
+    return comparePricesWithLimits(ctx, domain, currency);
+  },
+});
 
-    return {
-      domain,
-      available,
-      premium: isPremium && available,
-      price: isPremium && available ? 500 + (hash % 9500) : undefined,
-    };
+async function comparePricesWithLimits(
+  ctx: ActionCtx,
+  domain: string,
+  currency: string | undefined
+): Promise<PriceComparison> {
+  const parsed = parseDomain(domain);
+  if (!parsed.ok) {
+    throw new Error(parsed.error.message);
+  }
+
+  const comparison = await comparePrices(parsed.value.domain, {
+    chain: getProviderChain(),
+    acquire: acquireFromSharedBuckets(ctx),
+    health: healthFromTable(ctx),
+    currency,
   });
+  console.log(
+    `Compared ${comparison.quotes.length} quotes for ${domain}, cheapest: ${comparison.cheapest?.provider ?? "none"}`
+  );
+  return comparison;
+}
+
+// Provider calls draw from the deployment-wide token buckets in rateLimiter
+function acquireFromSharedBuckets(ctx: ActionCtx): AcquireTokens {
+  return (provider, tokens, limit) =>
+    ctx.runMutation(internal.rateLimiter.acquire, {
+      provider,
+      count: tokens,
+      capacity: limit.capacity,
+      refillPerSecond: limit.refillPerSecond,
+      maxWaitMs: MAX_RATE_LIMIT_WAIT_MS,
+    });
+}
+
+// Circuit breaker state and call stats live in the providerHealth table
+function healthFromTable(ctx: ActionCtx): ProviderHealthHooks {
+  return {
+    allow: (provider) => ctx.runMutation(internal.providerHealth.allow, { provider }),
+    record: (provider, outcome) =>
+      ctx.runMutation(internal.providerHealth.record, { provider, ...outcome }),
+  };
+}
+
+// The TLD section of the prompt comes from the tldCatalog table, so it follows catalog edits
+async function systemPromptFromCatalog(ctx: ActionCtx, selectedTlds?: string[]): Promise<string> {
+  const catalog: TldCatalogEntry[] = await ctx.runQuery(internal.tldCatalog.listInternal, {});
+  return buildSystemPrompt(catalog, selectedTlds);
 }
 
 // ============================================
@@ -227,14 +402,17 @@ export const chat = action({
   args: {
     threadId: v.string(),
     message: v.string(),
+    // TLDs picked in the chat's TLD picker
+    tlds: v.optional(v.array(v.string())),
   },
-  handler: async (ctx, { threadId, message }) => {
+  handler: async (ctx, { threadId, message, tlds }) => {
     // Use the agent to generate a response
     // The agent automatically:
     // - Includes conversation context
     // - Calls tools as needed (generateDomainNames, checkDomainAvailability, etc.)
     // - Saves messages to the thread
-    const result = await domainBot.generateText(ctx, { threadId }, { prompt: message });
+    const system = await systemPromptFromCatalog(ctx, tlds);
+    const result = await domainBot.generateText(ctx, { threadId }, { prompt: message, system });
 
     // Collect all tool results from all steps (for multi-step tool calling)
     const allToolResults: Array<{
@@ -244,7 +422,7 @@ export const chat = action({
     }> = [];
 
     // Method 1: Check result.steps (AI SDK format)
-    // Note: toolResults use 'output' not 'result', and toolName is index-based ("0", "1")
+    // Note: toolResults use 'output' not 'result'; toolName is the key in domainBot's tools
     type StepToolResult = {
       toolCallId: string;
       toolName: string;
@@ -260,16 +438,9 @@ export const chat = action({
             // Use 'output' (AI SDK) or 'result' as fallback
             const resultData = tr.output ?? tr.result;
             if (resultData !== undefined) {
-              // Map tool index to tool name
-              const toolNameMap: Record<string, string> = {
-                "0": "generateDomainNames",
-                "1": "checkDomainAvailability",
-                "2": "saveDomain",
-                "3": "getSavedDomains"
-              };
               allToolResults.push({
                 toolCallId: tr.toolCallId,
-                toolName: toolNameMap[tr.toolName] ?? tr.toolName,
+                toolName: tr.toolName,
                 result: resultData,
               });
             }
@@ -331,7 +502,8 @@ export const createThread = action({
   },
   handler: async (ctx, { userId, title }) => {
     const { threadId } = await domainBot.createThread(ctx, {
-      metadata: { userId, title: title ?? "New conversation" },
+      userId,
+      title: title ?? "New conversation",
     });
     return threadId;
   },
@@ -370,7 +542,8 @@ export const chatInternal = internalAction({
     message: v.string(),
   },
   handler: async (ctx, { threadId, message }) => {
-    const result = await domainBot.generateText(ctx, { threadId }, { prompt: message });
+    const system = await systemPromptFromCatalog(ctx);
+    const result = await domainBot.generateText(ctx, { threadId }, { prompt: message, system });
 
     // Collect all tool results from all steps
     const allToolResults: Array<{
@@ -1,7 +1,19 @@
-import { Agent, createTool } from "@convex-dev/agent";
+import { Agent, createTool, type ToolCtx } from "@convex-dev/agent";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { z } from "zod";
 import { components, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import type { DomainCheckReport, DomainCheckResult, PriceComparison } from "../registrars/types";
+import { parseDomain } from "../lib/domainName";
+import type { TldCatalogEntry } from "../lib/tldCatalog";
+import {
+  DEFAULT_MAX_RESULTS,
+  type GenerationResult,
+  MAX_RESULTS_LIMIT,
+  generateDomainCandidates,
+} from "../generation/engine";
+import type { StrategyDefinition } from "../generation/strategies";
+import { MAX_STRATEGY_WEIGHT, type VibeProfile } from "../generation/vibes";
 import { SYSTEM_PROMPT } from "./prompts";
 
 // Configure Anthropic provider to use Vercel AI Gateway
@@ -20,10 +32,9 @@ export const domainBot = new Agent(components.agent, {
   // Note: Embeddings disabled - would require separate Voyage AI or OpenAI setup
   instructions: SYSTEM_PROMPT,
   maxSteps: 5, // Allow multiple tool call rounds (generate domains, then check availability)
-  tools: [
+  tools: {
     // Domain generation tool
-    createTool({
-      name: "generateDomainNames",
+    generateDomainNames: createTool({
       description:
         "Generate creative domain name suggestions based on keywords and project description",
       args: z.object({
@@ -33,116 +44,201 @@ export const domainBot = new Agent(components.agent, {
         vibe: z
           .string()
           .optional()
-          .describe("The feel/aesthetic of the project (e.g., 'professional', 'fun', 'minimal')"),
+          .describe(
+            "The feel/aesthetic of the project (e.g., 'professional', 'fun', 'minimal') - matched to a vibe profile"
+          ),
         tlds: z
           .array(z.string())
           .optional()
-          .describe("Specific TLDs to use (defaults to .com, .io, .co, .dev, .app, .ai)"),
+          .describe(
+            "Specific TLDs or second-level suffixes to use, e.g. ['.com', '.co.uk', '.com.au'] (defaults to the TLD catalog's defaults)"
+          ),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_RESULTS_LIMIT)
+          .optional()
+          .describe(`How many candidates to return (default ${DEFAULT_MAX_RESULTS})`),
+        constraints: z
+          .object({
+            minLength: z.number().int().min(1).optional(),
+            maxLength: z.number().int().min(1).optional(),
+            allowHyphens: z.boolean().optional(),
+            allowDigits: z.boolean().optional(),
+            exclude: z.array(z.string()).optional(),
+          })
+          .optional()
+          .describe(
+            "Limits on the name before the TLD (e.g., maxLength: 8 for short names, allowHyphens: false)"
+          ),
       }),
-      handler: async (_ctx, args) => {
-        // Generate domain suggestions locally
-        const tlds = args.tlds ?? [".com", ".io", ".co", ".dev", ".app", ".ai"];
-        const prefixes = ["get", "my", "use", "try", "go", "hey"];
-        const suffixes = ["app", "hq", "hub", "ly", "ify"];
-        const suggestions: Set<string> = new Set();
-
-        const cleanKeywords = args.keywords
-          .map((k) => k.toLowerCase().replace(/[^a-z0-9]/g, ""))
-          .filter((k) => k.length > 0);
-
-        for (const keyword of cleanKeywords.slice(0, 3)) {
-          // Direct keyword with TLDs
-          for (const tld of tlds.slice(0, 4)) {
-            suggestions.add(`${keyword}${tld}`);
-          }
-          // With prefixes
-          for (const prefix of prefixes.slice(0, 3)) {
-            suggestions.add(`${prefix}${keyword}.com`);
-            suggestions.add(`${prefix}${keyword}.io`);
-          }
-          // With suffixes
-          for (const suffix of suffixes.slice(0, 2)) {
-            suggestions.add(`${keyword}${suffix}.com`);
-          }
-        }
-
-        // Compound words
-        if (cleanKeywords.length >= 2) {
-          suggestions.add(`${cleanKeywords[0]}${cleanKeywords[1]}.com`);
-          suggestions.add(`${cleanKeywords[0]}${cleanKeywords[1]}.io`);
-        }
+      handler: async (ctx, args): Promise<GenerationResult> => {
+        const [strategies, catalog, vibes]: [
+          StrategyDefinition[],
+          TldCatalogEntry[],
+          VibeProfile[],
+        ] = await Promise.all([
+          ctx.runQuery(internal.strategies.listEnabledInternal, {}),
+          ctx.runQuery(internal.tldCatalog.listInternal, {}),
+          ctx.runQuery(internal.vibeProfiles.listInternal, {}),
+        ]);
 
-        return Array.from(suggestions).slice(0, 8);
+        return generateDomainCandidates(
+          {
+            keywords: args.keywords,
+            vibe: args.vibe,
+            tlds: args.tlds,
+            limits: { maxResults: args.maxResults },
+            constraints: args.constraints,
+          },
+          { strategies, catalog, vibes }
+        );
       },
     }),
 
     // Domain availability checking tool
-    createTool({
-      name: "checkDomainAvailability",
+    checkDomainAvailability: createTool({
       description: "Check if specific domains are available for registration and get pricing",
       args: z.object({
         domains: z
           .array(z.string())
           .describe("List of full domain names to check (e.g., ['coolapp.io', 'myproject.com'])"),
+        forceRefresh: z
+          .boolean()
+          .optional()
+          .describe("Skip cached answers and re-query providers (use when the user asks to re-check)"),
       }),
       handler: async (ctx, args) => {
         // Call our existing domain checking action
-        const results = await ctx.runAction(internal.actions.checkDomains, {
+        // Returns { results, stages } - stages report how many candidates each step
+        // (DNS pre-filter, then each provider) settled
+        const report: DomainCheckReport = await ctx.runAction(internal.actions.checkDomains, {
           domains: args.domains,
+          forceRefresh: args.forceRefresh,
+          threadId: ctx.threadId,
         });
-        return results;
+        return report;
+      },
+    }),
+
+    // Progress of a background availability job started by checkDomainAvailability
+    getDomainCheckJob: createTool({
+      description:
+        "Get progress and results so far for a background domain check job (returned as job.jobId by checkDomainAvailability when more than 8 domains are checked)",
+      args: z.object({
+        jobId: z.string().describe("The job id returned by checkDomainAvailability"),
+      }),
+      handler: async (ctx, args) => {
+        const job: (Doc<"domainCheckJobs"> & { results: DomainCheckResult[] }) | null =
+          await ctx.runQuery(internal.domainCheckJobs.getInternal, {
+            jobId: args.jobId as Id<"domainCheckJobs">,
+          });
+
+        if (!job) {
+          return { success: false, error: "Job not found" };
+        }
+
+        return {
+          success: true,
+          status: job.status,
+          completed: job.completed,
+          total: job.total,
+          results: job.results,
+        };
       },
     }),
 
     // Save domain tool
-    createTool({
-      name: "saveDomain",
-      description: "Save a domain to the user's favorites list for later",
+    saveDomain: createTool({
+      description:
+        "Save a domain to the user's favorites list for later (its current availability is checked and stored with it)",
       args: z.object({
         domain: z.string().describe("The full domain name to save"),
         notes: z.string().optional().describe("Optional notes about why this domain is good"),
         projectIdea: z.string().optional().describe("The project idea this domain is for"),
       }),
       handler: async (ctx, args) => {
-        // Get userId from thread metadata
-        const thread = await ctx.runQuery(components.agent.threads.getThread, {
-          threadId: ctx.threadId!,
-        });
+        const userId = await threadUserId(ctx);
 
-        if (!thread?.metadata?.userId) {
+        if (!userId) {
           return { success: false, error: "No user context available" };
         }
 
-        const tld = args.domain.substring(args.domain.lastIndexOf("."));
+        const parsed = parseDomain(args.domain);
+        if (!parsed.ok) {
+          return { success: false, error: parsed.error.message, code: parsed.error.code };
+        }
+
+        // Store what the domain actually is right now (cached answer or a fresh check)
+        const report: DomainCheckReport = await ctx.runAction(internal.actions.checkDomains, {
+          domains: [parsed.value.domain],
+          threadId: ctx.threadId,
+        });
+        const result = report.results.find((r) => r.domain === parsed.value.domain);
+        const status = result?.status ?? "unknown";
+
         await ctx.runMutation(internal.domains.saveInternal, {
-          userId: thread.metadata.userId,
-          domain: args.domain,
-          tld,
-          available: true,
+          userId,
+          domain: parsed.value.domain,
+          available: status === "available",
+          status,
+          premium: result?.premium,
+          premiumReason: result?.premiumReason,
+          price: result?.price,
+          pricing: result?.pricing,
+          simulated: result?.simulated,
           projectIdea: args.projectIdea,
           notes: args.notes,
         });
 
-        return { success: true, domain: args.domain };
+        return { success: true, domain: parsed.value.unicode, status };
+      },
+    }),
+
+    // Watch a taken domain for expiry and drop
+    watchDomain: createTool({
+      description:
+        "Add a taken domain to the user's watchlist: its expiry is tracked and they get a notification when it enters pendingDelete or becomes available",
+      args: z.object({
+        domain: z.string().describe("The full domain name to watch"),
+        notes: z.string().optional().describe("Optional notes about why the user wants it"),
+      }),
+      handler: async (ctx, args) => {
+        const userId = await threadUserId(ctx);
+
+        if (!userId) {
+          return { success: false, error: "No user context available" };
+        }
+
+        const parsed = parseDomain(args.domain);
+        if (!parsed.ok) {
+          return { success: false, error: parsed.error.message, code: parsed.error.code };
+        }
+
+        await ctx.runMutation(internal.watchlist.watchInternal, {
+          userId,
+          domain: parsed.value.domain,
+          notes: args.notes,
+        });
+
+        return { success: true, domain: parsed.value.unicode };
       },
     }),
 
     // Get saved domains tool
-    createTool({
-      name: "getSavedDomains",
+    getSavedDomains: createTool({
       description: "Get the user's list of saved domain names",
       args: z.object({}),
       handler: async (ctx) => {
-        const thread = await ctx.runQuery(components.agent.threads.getThread, {
-          threadId: ctx.threadId!,
-        });
+        const userId = await threadUserId(ctx);
 
-        if (!thread?.metadata?.userId) {
+        if (!userId) {
           return [];
         }
 
         const domains = await ctx.runQuery(internal.domains.listByUserInternal, {
-          userId: thread.metadata.userId,
+          userId,
         });
 
         return domains.map((d) => ({
@@ -152,9 +248,82 @@ export const domainBot = new Agent(components.agent, {
         }));
       },
     }),
-  ],
+
+    // Price one domain at every configured registrar
+    compareDomainPrices: createTool({
+      description:
+        "Compare registration, renewal and transfer prices for one domain across all registrars and find the cheapest",
+      args: z.object({
+        domain: z.string().describe("The full domain name to price"),
+      }),
+      handler: async (ctx, args): Promise<PriceComparison> => {
+        // Totals in the user's display currency when we know it
+        const userId = await threadUserId(ctx);
+        const user = userId ? await ctx.runQuery(internal.users.getInternal, { userId }) : null;
+
+        return await ctx.runAction(internal.actions.compareDomainPricesInternal, {
+          domain: args.domain,
+          currency: user?.displayCurrency,
+        });
+      },
+    }),
+
+    // Vibe profiles steer generateDomainNames' strategies, affixes, lengths and TLDs
+    listVibeProfiles: createTool({
+      description:
+        "List the vibe profiles generateDomainNames understands, with their aliases and what each one favors",
+      args: z.object({}),
+      handler: async (ctx): Promise<VibeProfile[]> => {
+        return await ctx.runQuery(internal.vibeProfiles.listInternal, {});
+      },
+    }),
+
+    createVibeProfile: createTool({
+      description:
+        "Create a new vibe profile (e.g. 'retro', 'luxury') that generateDomainNames can use as its vibe",
+      args: z.object({
+        name: z.string().describe("Lowercase identifier, letters/digits/hyphens (e.g. 'retro-fun')"),
+        description: z.string().describe("What names in this vibe feel like"),
+        aliases: z
+          .array(z.string())
+          .optional()
+          .describe("Other words that should select this profile (e.g. ['vintage', 'old-school'])"),
+        strategyWeights: z
+          .record(z.string(), z.number())
+          .optional()
+          .describe(
+            `Slots per round by ideation strategy name, 0-${MAX_STRATEGY_WEIGHT} (0 turns a strategy off, unlisted = 1)`
+          ),
+        prefixes: z.array(z.string()).optional().describe("Replace the strategies' prefixes"),
+        suffixes: z.array(z.string()).optional().describe("Replace the strategies' suffixes"),
+        minLength: z.number().int().optional().describe("Shortest name to suggest (before the TLD)"),
+        maxLength: z.number().int().optional().describe("Longest name to suggest (before the TLD)"),
+        idealLength: z.number().int().optional().describe("Names near this length are listed first"),
+        tlds: z.array(z.string()).optional().describe("Preferred TLDs, tried first"),
+      }),
+      handler: async (ctx, args) => {
+        const userId = await threadUserId(ctx);
+
+        return await ctx.runMutation(internal.vibeProfiles.createInternal, {
+          ...args,
+          userId: userId ?? undefined,
+        });
+      },
+    }),
+  },
 });
 
+// The user a tool call acts for: threads are created with the app's user id (threads.create)
+async function threadUserId(ctx: ToolCtx): Promise<Id<"users"> | null> {
+  if (!ctx.threadId) {
+    return null;
+  }
+  const thread = await ctx.runQuery(components.agent.threads.getThread, {
+    threadId: ctx.threadId,
+  });
+  return thread?.userId ? (thread.userId as Id<"users">) : null;
+}
+
 // Export for use elsewhere
 export { SYSTEM_PROMPT };
 
@@ -1,64 +1,5 @@
 import { z } from "zod";
 
-// Domain name generation patterns
-const PREFIXES = ["get", "my", "use", "try", "go", "hey", "hello", "the", "just", "now", "be", "do"];
-const SUFFIXES = ["app", "io", "hq", "hub", "lab", "base", "ly", "ify", "er", "ster"];
-const TLDS = [".com", ".io", ".co", ".dev", ".app", ".ai"];
-
-/**
- * Generate domain name suggestions based on keywords
- */
-export function generateDomainNames(
-  keywords: string[],
-  options?: {
-    vibe?: string;
-    tlds?: string[];
-    maxResults?: number;
-  }
-): string[] {
-  const tlds = options?.tlds ?? TLDS;
-  const maxResults = options?.maxResults ?? 20;
-  const suggestions: Set<string> = new Set();
-
-  // Clean keywords
-  const cleanKeywords = keywords
-    .map((k) => k.toLowerCase().replace(/[^a-z0-9]/g, ""))
-    .filter((k) => k.length > 0);
-
-  for (const keyword of cleanKeywords) {
-    // Direct keyword
-    for (const tld of tlds) {
-      suggestions.add(`${keyword}${tld}`);
-    }
-
-    // With prefixes
-    for (const prefix of PREFIXES) {
-      for (const tld of tlds) {
-        suggestions.add(`${prefix}${keyword}${tld}`);
-      }
-    }
-
-    // With suffixes
-    for (const suffix of SUFFIXES) {
-      for (const tld of tlds) {
-        suggestions.add(`${keyword}${suffix}${tld}`);
-      }
-    }
-
-    // Compound keywords
-    for (const otherKeyword of cleanKeywords) {
-      if (otherKeyword !== keyword) {
-        for (const tld of tlds) {
-          suggestions.add(`${keyword}${otherKeyword}${tld}`);
-        }
-      }
-    }
-  }
-
-  // Convert to array and limit results
-  return Array.from(suggestions).slice(0, maxResults);
-}
-
 // Tool schemas for Convex Agent
 export const domainToolSchemas = {
   generateDomainNames: {
@@ -75,7 +16,7 @@ export const domainToolSchemas = {
       tlds: z
         .array(z.string())
         .optional()
-        .describe("Specific TLDs to use (defaults to .com, .io, .co, .dev, .app, .ai)"),
+        .describe("Specific TLDs to use (defaults to the TLD catalog's defaults)"),
     }),
   },
 
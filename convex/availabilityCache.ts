@@ -0,0 +1,130 @@
+import { v } from "convex/values";
+import { query, internalQuery, internalMutation } from "./_generated/server";
+import type { DomainCheckResult } from "./registrars/types";
+
+// How long each kind of answer stays fresh. Available names can be bought out from
+// under us, so they expire sooner than taken or reserved ones; unknown answers are
+// only cached briefly to avoid hammering a failing provider.
+const AVAILABLE_TTL_MS = 30 * 60 * 1000;
+const TAKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const ERROR_TTL_MS = 2 * 60 * 1000;
+
+type CacheOutcome = "available" | "taken" | "reserved" | "error";
+
+/**
+ * Cache key for a domain: lowercased, trimmed, no trailing dot
+ */
+export function normalizeCacheKey(domain: string): string {
+  return domain.trim().toLowerCase().replace(/\.$/, "");
+}
+
+function outcomeOf(result: DomainCheckResult): CacheOutcome {
+  return result.status === "unknown" ? "error" : result.status;
+}
+
+function ttlFor(outcome: CacheOutcome): number {
+  switch (outcome) {
+    case "available":
+      return AVAILABLE_TTL_MS;
+    case "taken":
+    case "reserved":
+      return TAKEN_TTL_MS;
+    case "error":
+      return ERROR_TTL_MS;
+  }
+}
+
+// Fresh cached results for the given domains (misses are simply absent)
+export const lookup = internalQuery({
+  args: { domains: v.array(v.string()) },
+  handler: async (ctx, { domains }): Promise<DomainCheckResult[]> => {
+    const now = Date.now();
+    const hits: DomainCheckResult[] = [];
+
+    for (const domain of domains) {
+      const entry = await ctx.db
+        .query("availabilityCache")
+        .withIndex("by_domain", (q) => q.eq("domain", normalizeCacheKey(domain)))
+        .first();
+
+      if (entry && entry.expiresAt > now) {
+        hits.push({ ...(entry.result as DomainCheckResult), domain, cached: true });
+      }
+    }
+
+    return hits;
+  },
+});
+
+// Upsert fresh provider answers
+export const store = internalMutation({
+  args: { results: v.array(v.any()) },
+  handler: async (ctx, { results }) => {
+    const now = Date.now();
+
+    for (const result of results as DomainCheckResult[]) {
+      // A mock answer must never be served later as if a provider had given it
+      if (result.simulated) {
+        continue;
+      }
+
+      const domain = normalizeCacheKey(result.domain);
+      const outcome = outcomeOf(result);
+      const entry = {
+        domain,
+        outcome,
+        result,
+        checkedAt: now,
+        expiresAt: now + ttlFor(outcome),
+      };
+
+      const existing = await ctx.db
+        .query("availabilityCache")
+        .withIndex("by_domain", (q) => q.eq("domain", domain))
+        .first();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, entry);
+      } else {
+        await ctx.db.insert("availabilityCache", entry);
+      }
+    }
+  },
+});
+
+// Add to the running hit/miss counters
+export const recordUsage = internalMutation({
+  args: { hits: v.number(), misses: v.number() },
+  handler: async (ctx, { hits, misses }) => {
+    const stats = await ctx.db.query("availabilityCacheStats").first();
+
+    if (stats) {
+      await ctx.db.patch(stats._id, {
+        hits: stats.hits + hits,
+        misses: stats.misses + misses,
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+
+    await ctx.db.insert("availabilityCacheStats", { hits, misses, updatedAt: Date.now() });
+  },
+});
+
+// Hit/miss counts so we can see how many lookups the cache saved
+export const stats = query({
+  args: {},
+  handler: async (ctx) => {
+    const stats = await ctx.db.query("availabilityCacheStats").first();
+    const hits = stats?.hits ?? 0;
+    const misses = stats?.misses ?? 0;
+    const total = hits + misses;
+
+    return {
+      hits,
+      misses,
+      hitRate: total > 0 ? hits / total : 0,
+      updatedAt: stats?.updatedAt,
+    };
+  },
+});
@@ -0,0 +1,18 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Each watched domain carries its own nextCheckAt; this only needs to tick as often as
+// the tightest schedule (domains in redemption or pendingDelete)
+crons.interval("check watched domains", { minutes: 15 }, internal.actions.checkWatchedDomains, {});
+
+// Per-user intervals are measured in days, so hourly batches keep up without bursts
+crons.interval(
+  "re-check stale saved domains",
+  { hours: 1 },
+  internal.actions.recheckStaleSavedDomains,
+  {}
+);
+
+export default crons;
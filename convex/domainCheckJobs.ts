@@ -0,0 +1,151 @@
+import { v } from "convex/values";
+import { query, internalQuery, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { DomainCheckResult } from "./registrars/types";
+
+// Get a job with its progress
+export const get = query({
+  args: { jobId: v.id("domainCheckJobs") },
+  handler: async (ctx, { jobId }) => {
+    return await ctx.db.get(jobId);
+  },
+});
+
+// Checked results for a job so far (in the order they were queued)
+export const listResults = query({
+  args: { jobId: v.id("domainCheckJobs") },
+  handler: async (ctx, { jobId }) => {
+    const items = await ctx.db
+      .query("domainCheckJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "done"))
+      .collect();
+
+    return items.map((item) => item.result as DomainCheckResult);
+  },
+});
+
+// Internal functions for the agent tools and worker
+
+// Queue a job and kick off the first worker run
+export const create = internalMutation({
+  args: {
+    domains: v.array(v.string()),
+    threadId: v.optional(v.string()),
+  },
+  handler: async (ctx, { domains, threadId }) => {
+    const jobId = await ctx.db.insert("domainCheckJobs", {
+      threadId,
+      status: "queued",
+      total: domains.length,
+      completed: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    for (const domain of domains) {
+      await ctx.db.insert("domainCheckJobItems", { jobId, domain, status: "pending" });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.actions.processDomainCheckJob, { jobId });
+    return jobId;
+  },
+});
+
+export const getInternal = internalQuery({
+  args: { jobId: v.id("domainCheckJobs") },
+  handler: async (ctx, { jobId }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const done = await ctx.db
+      .query("domainCheckJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "done"))
+      .collect();
+
+    return { ...job, results: done.map((item) => item.result as DomainCheckResult) };
+  },
+});
+
+// Next chunk of unchecked domains for the worker
+export const nextChunk = internalQuery({
+  args: { jobId: v.id("domainCheckJobs"), limit: v.number() },
+  handler: async (ctx, { jobId, limit }) => {
+    const items = await ctx.db
+      .query("domainCheckJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "pending"))
+      .take(limit);
+
+    return items.map((item) => item.domain);
+  },
+});
+
+// Store a chunk of results and advance the job's progress
+export const recordResults = internalMutation({
+  args: {
+    jobId: v.id("domainCheckJobs"),
+    results: v.array(v.any()),
+  },
+  handler: async (ctx, { jobId, results }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job) {
+      throw new Error("Domain check job not found");
+    }
+
+    const pending = await ctx.db
+      .query("domainCheckJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "pending"))
+      .collect();
+    const pendingByDomain = new Map(pending.map((item) => [item.domain, item]));
+
+    let completed = job.completed;
+    for (const result of results as DomainCheckResult[]) {
+      const item = pendingByDomain.get(result.domain);
+      if (!item) continue;
+
+      await ctx.db.patch(item._id, { status: "done", result, checkedAt: Date.now() });
+      completed++;
+    }
+
+    await ctx.db.patch(jobId, {
+      completed,
+      status: completed >= job.total ? "completed" : "running",
+      updatedAt: Date.now(),
+    });
+
+    return { remaining: job.total - completed };
+  },
+});
+
+// Overwrite already-checked items with fresh answers (retrying unknown results)
+export const replaceResults = internalMutation({
+  args: {
+    jobId: v.id("domainCheckJobs"),
+    results: v.array(v.any()),
+  },
+  handler: async (ctx, { jobId, results }) => {
+    const done = await ctx.db
+      .query("domainCheckJobItems")
+      .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "done"))
+      .collect();
+    const doneByDomain = new Map(done.map((item) => [item.domain, item]));
+
+    for (const result of results as DomainCheckResult[]) {
+      const item = doneByDomain.get(result.domain);
+      if (!item) continue;
+
+      await ctx.db.patch(item._id, { result, checkedAt: Date.now() });
+    }
+  },
+});
+
+export const markFailed = internalMutation({
+  args: {
+    jobId: v.id("domainCheckJobs"),
+    errorMessage: v.string(),
+  },
+  handler: async (ctx, { jobId, errorMessage }) => {
+    await ctx.db.patch(jobId, { status: "failed", errorMessage, updatedAt: Date.now() });
+  },
+});
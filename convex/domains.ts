@@ -1,5 +1,16 @@
 import { v } from "convex/values";
-import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { parseDomain } from "./lib/domainName";
+import { recheckIntervalMs } from "./lib/recheckInterval";
+import { savedStatusUpdate } from "./lib/savedDomainStatus";
+import { availabilityStatus, domainPricing, premiumReason } from "./schema";
 
 // List saved domains for a user
 export const listByUser = query({
@@ -18,14 +29,21 @@ export const save = mutation({
   args: {
     userId: v.id("users"),
     domain: v.string(),
-    tld: v.string(),
     available: v.boolean(),
+    status: v.optional(availabilityStatus),
     premium: v.optional(v.boolean()),
+    premiumReason: v.optional(premiumReason),
     price: v.optional(v.number()),
+    pricing: v.optional(domainPricing),
+    simulated: v.optional(v.boolean()),
     projectIdea: v.optional(v.string()),
     notes: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, input) => {
+    const args = withParsedDomain(input);
+    const now = Date.now();
+    const nextCheckAt = await nextCheckAfter(ctx, args.userId, now);
+
     // Check if domain already saved
     const existing = await ctx.db
       .query("savedDomains")
@@ -36,7 +54,8 @@ export const save = mutation({
       // Update existing
       await ctx.db.patch(existing._id, {
         ...args,
-        checkedAt: Date.now(),
+        checkedAt: now,
+        nextCheckAt,
       });
       return existing._id;
     }
@@ -44,8 +63,9 @@ export const save = mutation({
     // Create new
     return await ctx.db.insert("savedDomains", {
       ...args,
-      checkedAt: Date.now(),
-      createdAt: Date.now(),
+      checkedAt: now,
+      nextCheckAt,
+      createdAt: now,
     });
   },
 });
@@ -69,6 +89,14 @@ export const updateNotes = mutation({
   },
 });
 
+// Dismiss the "changed" badge once the user has seen the new status
+export const acknowledgeChange = mutation({
+  args: { domainId: v.id("savedDomains") },
+  handler: async (ctx, { domainId }) => {
+    await ctx.db.patch(domainId, { previousStatus: undefined, statusChangedAt: undefined });
+  },
+});
+
 // Internal functions for agent tools
 export const listByUserInternal = internalQuery({
   args: { userId: v.id("users") },
@@ -85,14 +113,21 @@ export const saveInternal = internalMutation({
   args: {
     userId: v.id("users"),
     domain: v.string(),
-    tld: v.string(),
     available: v.boolean(),
+    status: v.optional(availabilityStatus),
     premium: v.optional(v.boolean()),
+    premiumReason: v.optional(premiumReason),
     price: v.optional(v.number()),
+    pricing: v.optional(domainPricing),
+    simulated: v.optional(v.boolean()),
     projectIdea: v.optional(v.string()),
     notes: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, input) => {
+    const args = withParsedDomain(input);
+    const now = Date.now();
+    const nextCheckAt = await nextCheckAfter(ctx, args.userId, now);
+
     // Check if domain already saved
     const existing = await ctx.db
       .query("savedDomains")
@@ -102,15 +137,112 @@ export const saveInternal = internalMutation({
     if (existing) {
       await ctx.db.patch(existing._id, {
         ...args,
-        checkedAt: Date.now(),
+        checkedAt: now,
+        nextCheckAt,
       });
       return existing._id;
     }
 
     return await ctx.db.insert("savedDomains", {
       ...args,
-      checkedAt: Date.now(),
-      createdAt: Date.now(),
+      checkedAt: now,
+      nextCheckAt,
+      createdAt: now,
+    });
+  },
+});
+
+export const getInternal = internalQuery({
+  args: { domainId: v.id("savedDomains") },
+  handler: async (ctx, { domainId }) => {
+    return await ctx.db.get(domainId);
+  },
+});
+
+/**
+ * Up to `limit` saved domains due for a re-check, most overdue first. Rows saved before
+ * nextCheckAt existed have none and count as due; their first re-check schedules them.
+ */
+export const listStaleInternal = internalQuery({
+  args: { limit: v.number() },
+  handler: async (ctx, { limit }) => {
+    const unscheduled = await ctx.db
+      .query("savedDomains")
+      .withIndex("by_next_check", (q) => q.eq("nextCheckAt", undefined))
+      .take(limit);
+    if (unscheduled.length >= limit) {
+      return unscheduled;
+    }
+
+    const due = await ctx.db
+      .query("savedDomains")
+      .withIndex("by_next_check", (q) => q.gt("nextCheckAt", 0).lte("nextCheckAt", Date.now()))
+      .take(limit - unscheduled.length);
+    return [...unscheduled, ...due];
+  },
+});
+
+/**
+ * Record the outcome of a re-check; `available` is kept in sync for older readers.
+ * A flip between known statuses is remembered so the saved page can badge it; a simulated
+ * result only reschedules the check.
+ */
+export const updateStatusInternal = internalMutation({
+  args: {
+    domainId: v.id("savedDomains"),
+    status: availabilityStatus,
+    premium: v.optional(v.boolean()),
+    premiumReason: v.optional(premiumReason),
+    price: v.optional(v.number()),
+    pricing: v.optional(domainPricing),
+    simulated: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { domainId, status, premium, premiumReason, price, pricing, simulated }) => {
+    const saved = await ctx.db.get(domainId);
+    if (!saved) {
+      return;
+    }
+
+    const now = Date.now();
+    const nextCheckAt = await nextCheckAfter(ctx, saved.userId, now);
+    const update = savedStatusUpdate(saved, { status, simulated }, now);
+    if (!update) {
+      // Mock answers are made up; keep the last real one and try again next interval
+      await ctx.db.patch(domainId, { nextCheckAt });
+      return;
+    }
+
+    await ctx.db.patch(domainId, {
+      ...update,
+      premium,
+      premiumReason,
+      price,
+      pricing,
+      simulated,
+      checkedAt: now,
+      nextCheckAt,
     });
   },
 });
+
+// The owner's re-check interval is applied when a row is written, so the cron reads only due rows
+async function nextCheckAfter(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  checkedAt: number
+): Promise<number> {
+  const user = await ctx.db.get(userId);
+  return checkedAt + recheckIntervalMs(user?.recheckIntervalDays);
+}
+
+/**
+ * Saved domains are stored as the registrable ASCII domain so IDNs and URLs match
+ * however they were typed, with the TLD taken from the parsed suffix
+ */
+function withParsedDomain<T extends { domain: string }>(args: T): T & { tld: string } {
+  const parsed = parseDomain(args.domain);
+  if (!parsed.ok) {
+    throw new Error(parsed.error.message);
+  }
+  return { ...args, domain: parsed.value.domain, tld: parsed.value.suffix };
+}
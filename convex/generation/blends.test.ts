@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { blendKeywords, blendPair } from "./blends";
+import { splitSyllables } from "./syllables";
+
+const names = (first: string, second: string): string[] =>
+  blendPair(first, second).map((blend) => blend.name);
+
+describe("splitSyllables", () => {
+  it.each([
+    ["motor", ["mo", "tor"]],
+    ["etiquette", ["e", "ti", "quette"]],
+    ["computer", ["com", "put", "er"]],
+    ["spanish", ["span", "ish"]],
+    ["cat", ["cat"]],
+    ["münchen", ["münchen"]],
+  ])("splits %s", (word, syllables) => {
+    expect(splitSyllables(word)).toEqual(syllables);
+  });
+});
+
+describe("blendPair", () => {
+  it("joins words where they share letters, longest overlap first", () => {
+    expect(names("pet", "etiquette")[0]).toBe("petiquette");
+    expect(names("motor", "hotel")[0]).toBe("motel");
+    expect(names("spoon", "fork")).toEqual(["spoork", "spork"]);
+  });
+
+  it("falls back to syllable joins and tags each blend's kind", () => {
+    expect(blendPair("code", "academy")).toEqual([
+      { name: "codemy", first: "code", second: "academy", kind: "overlap" },
+      { name: "codecademy", first: "code", second: "academy", kind: "syllables" },
+    ]);
+  });
+
+  it("skips joins with a consonant cluster neither word has", () => {
+    expect(names("mot", "trek")).toEqual([]);
+  });
+});
+
+describe("blendKeywords", () => {
+  it("blends both orders of each pair, best blends first, a-z keywords only", () => {
+    const blends = blendKeywords(["spoon", "fork", "spoon", "münchen", "Pet"]);
+    expect(blends.map((blend) => [blend.name, blend.first, blend.second])).toEqual([
+      ["spoork", "spoon", "fork"],
+      ["foon", "fork", "spoon"],
+      ["spork", "spoon", "fork"],
+    ]);
+  });
+
+  it("only blends pairs among the first keywords when there are many", () => {
+    const keywords = Array.from({ length: 12 }, (_, i) => `word${"abcdefghijkl"[i]}ing`);
+    const blends = blendKeywords(keywords);
+
+    expect(blends.length).toBeGreaterThan(0);
+    const used = new Set(blends.flatMap((blend) => [blend.first, blend.second]));
+    expect([...used].every((keyword) => keywords.slice(0, 6).includes(keyword))).toBe(true);
+  });
+});
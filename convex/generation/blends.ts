@@ -0,0 +1,184 @@
+/**
+ * Portmanteaus for the "blend" strategy type: two keywords joined where they share letters
+ * ("pet" + "etiquette" -> "petiquette") or at syllable boundaries ("motor" + "hotel" -> "motel").
+ * Syllables come from the English hyphenation patterns, so only a-z keywords are blended.
+ */
+
+import { splitSyllables } from "./syllables";
+
+export interface Blend {
+  name: string;
+  first: string;
+  second: string;
+  // "overlap": joined on shared letters; "syllables": first's leading + second's trailing syllables
+  kind: "overlap" | "syllables";
+}
+
+const MAX_BLENDS_PER_PAIR = 6;
+// Pairs grow with the square of the keyword count
+const MAX_BLEND_PAIRS = 30;
+const MIN_BLEND_LENGTH = 4;
+// Letters that sound alike enough to overlap on ("c"/"k")
+const SOUND_CLASSES = ["ckq", "sz", "iy"];
+
+/**
+ * Blends of ordered keyword pairs (up to MAX_BLEND_PAIRS), interleaved so each pair's best
+ * blend comes first
+ */
+export function blendKeywords(keywords: string[]): Blend[] {
+  const words = [...new Set(keywords)].filter((keyword) => /^[a-z]+$/.test(keyword));
+  // Pairs among the first keywords come first: each new keyword pairs with the ones before it
+  const pairs: [string, string][] = [];
+  for (let j = 1; j < words.length && pairs.length < MAX_BLEND_PAIRS; j++) {
+    for (let i = 0; i < j; i++) {
+      pairs.push([words[i], words[j]], [words[j], words[i]]);
+    }
+  }
+  const perPair = pairs
+    .slice(0, MAX_BLEND_PAIRS)
+    .map(([first, second]) => blendPair(first, second));
+
+  const seen = new Set<string>();
+  const blends: Blend[] = [];
+  const rounds = Math.max(0, ...perPair.map((pair) => pair.length));
+  for (let round = 0; round < rounds; round++) {
+    for (const pair of perPair) {
+      const blend = pair[round];
+      if (blend && !seen.has(blend.name)) {
+        seen.add(blend.name);
+        blends.push(blend);
+      }
+    }
+  }
+  return blends;
+}
+
+/**
+ * Best blends of two lowercase words, overlaps (longest shared run first) before syllable joins
+ */
+export function blendPair(first: string, second: string): Blend[] {
+  const firstSyllables = splitSyllables(first);
+  const secondSyllables = splitSyllables(second);
+
+  // Keep enough of each word to recognize it: first through its first vowel, second from the
+  // vowel of its last syllable
+  const lastSyllable = secondSyllables[secondSyllables.length - 1];
+  const headMin = firstVowelIndex(first) + 1;
+  const tailMax = second.length - lastSyllable.length + firstVowelIndex(lastSyllable);
+  if (headMin === 0 || firstVowelIndex(lastSyllable) === -1) {
+    return [];
+  }
+
+  const overlaps: { name: string; junction: number; shared: number }[] = [];
+  for (let i = 0; i < first.length; i++) {
+    for (let j = 0; j <= tailMax; j++) {
+      let shared = 0;
+      while (
+        i + shared < first.length &&
+        j + shared < second.length &&
+        sameSound(first[i + shared], second[j + shared])
+      ) {
+        shared++;
+      }
+      // Second must add letters past the overlap; keeping all of first takes a 2+ letter overlap,
+      // or it's just concatenation with a letter dropped ("etiquette" + "pet" -> "etiquettet")
+      const keepsFirst = i + shared === first.length;
+      if (shared >= (keepsFirst ? 2 : 1) && i + shared >= headMin && j + shared < second.length) {
+        overlaps.push({
+          name: first.slice(0, i + shared) + second.slice(j + shared),
+          junction: i + shared,
+          shared,
+        });
+      }
+    }
+  }
+  // Longer overlaps read as one word; among equals, keeping more of both words is clearer
+  overlaps.sort((a, b) => b.shared - a.shared || b.name.length - a.name.length);
+
+  const joins: { name: string; junction: number }[] = [];
+  for (let m = 1; m <= firstSyllables.length; m++) {
+    for (let n = 1; n <= secondSyllables.length; n++) {
+      if (m === firstSyllables.length && n === secondSyllables.length) {
+        continue; // Plain concatenation is the Compound Words strategy's job
+      }
+      const head = firstSyllables.slice(0, m).join("");
+      joins.push({ name: head + secondSyllables.slice(-n).join(""), junction: head.length });
+    }
+  }
+  // Closest to the longer word's length first ("motel", not "mohotel")
+  const target = Math.max(first.length, second.length);
+  joins.sort((a, b) => Math.abs(a.name.length - target) - Math.abs(b.name.length - target));
+
+  const seen = new Set([first, second, first + second]);
+  const blends: Blend[] = [];
+  const candidates = [
+    ...overlaps.map((blend) => ({ ...blend, kind: "overlap" as const })),
+    ...joins.map((blend) => ({ ...blend, kind: "syllables" as const })),
+  ];
+  for (const { name, junction, kind } of candidates) {
+    if (
+      name.length >= MIN_BLEND_LENGTH &&
+      !seen.has(name) &&
+      !isAwkwardJunction(name, junction, [first, second])
+    ) {
+      seen.add(name);
+      blends.push({ name, first, second, kind });
+    }
+    if (blends.length >= MAX_BLENDS_PER_PAIR) {
+      break;
+    }
+  }
+  return blends;
+}
+
+/**
+ * True when the join creates a consonant cluster or vowel run (3+), or a doubled letter,
+ * that neither source word has: "mot" + "trek" -> "mottrek", "code" + "emy" -> "codeemy"
+ */
+function isAwkwardJunction(name: string, junction: number, sources: string[]): boolean {
+  if (junction === 0 || junction >= name.length) {
+    return false;
+  }
+  const unfamiliar = (run: string): boolean => !sources.some((source) => source.includes(run));
+
+  if (name[junction - 1] === name[junction] && unfamiliar(name.slice(junction - 1, junction + 1))) {
+    return true;
+  }
+
+  for (const vowels of [false, true]) {
+    const matches = (index: number): boolean => isVowel(name, index) === vowels;
+    if (!matches(junction - 1) || !matches(junction)) {
+      continue;
+    }
+    let start = junction - 1;
+    while (start > 0 && matches(start - 1)) start--;
+    let end = junction + 1;
+    while (end < name.length && matches(end)) end++;
+
+    const run = name.slice(start, end);
+    if (run.length >= 3 && unfamiliar(run)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// "y" is a consonant before a vowel or at the start ("yes"), a vowel otherwise ("gym")
+function isVowel(word: string, index: number): boolean {
+  const char = word[index];
+  if (char === "y") {
+    return index > 0 && !/[aeiou]/.test(word[index + 1] ?? "");
+  }
+  return /[aeiou]/.test(char);
+}
+
+function firstVowelIndex(word: string): number {
+  for (let i = 0; i < word.length; i++) {
+    if (isVowel(word, i)) return i;
+  }
+  return -1;
+}
+
+function sameSound(a: string, b: string): boolean {
+  return a === b || SOUND_CLASSES.some((group) => group.includes(a) && group.includes(b));
+}
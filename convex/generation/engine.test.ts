@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TLD_CATALOG } from "../lib/tldCatalog";
+import {
+  type GenerationContext,
+  MAX_KEYWORDS_LIMIT,
+  MAX_RESULTS_LIMIT,
+  generateDomainCandidates,
+} from "./engine";
+import { DEFAULT_STRATEGIES } from "./strategies";
+import { DEFAULT_VIBE_PROFILES } from "./vibes";
+
+const CONTEXT: GenerationContext = {
+  strategies: DEFAULT_STRATEGIES,
+  catalog: DEFAULT_TLD_CATALOG,
+  vibes: DEFAULT_VIBE_PROFILES,
+};
+
+describe("generateDomainCandidates", () => {
+  it("cleans up keywords and tags every candidate with its strategy", () => {
+    const result = generateDomainCandidates(
+      { keywords: ["Pet Care!", "pet care", "  ", "food"], tlds: [".com"] },
+      CONTEXT
+    );
+
+    expect(result.keywords).toEqual(["petcare", "food"]);
+    expect(result.tlds).toEqual([".com"]);
+    expect(result.candidates[0]).toEqual({
+      domain: "petcare.com",
+      unicode: "petcare.com",
+      name: "petcare",
+      suffix: ".com",
+      length: 7,
+      strategy: "Exact Keywords",
+      pattern: "{keyword}",
+    });
+    expect(result.candidates.map((candidate) => candidate.domain)).toContain("foodpetcare.com");
+    expect(new Set(result.candidates.map((candidate) => candidate.domain)).size).toBe(
+      result.candidates.length
+    );
+  });
+
+  it("clamps maxKeywords and maxResults to the engine's limits", () => {
+    const keywords = Array.from({ length: 40 }, (_, i) => `word${i}`);
+    const result = generateDomainCandidates(
+      { keywords, limits: { maxKeywords: 1000, maxResults: 100_000 } },
+      CONTEXT
+    );
+
+    expect(result.keywords).toHaveLength(MAX_KEYWORDS_LIMIT);
+    expect(result.candidates.length).toBeLessThanOrEqual(MAX_RESULTS_LIMIT);
+  });
+
+  it("keeps registrable suffixes and reports the rest as ignored", () => {
+    const result = generateDomainCandidates(
+      { keywords: ["shop"], tlds: ["co.uk", ".IO", "foo.bar", ".co.uk"] },
+      CONTEXT
+    );
+
+    expect(result.tlds).toEqual([".co.uk", ".io"]);
+    expect(result.ignoredTlds).toEqual(["foo.bar"]);
+    expect(result.candidates.every((c) => [".co.uk", ".io"].includes(c.suffix))).toBe(true);
+  });
+
+  it("applies the constraints to the name before the suffix", () => {
+    const result = generateDomainCandidates(
+      {
+        keywords: ["cloud", "kitchen"],
+        tlds: [".com"],
+        constraints: { maxLength: 8, allowHyphens: false, exclude: ["get"] },
+      },
+      CONTEXT
+    );
+
+    expect(result.candidates.length).toBeGreaterThan(0);
+    for (const candidate of result.candidates) {
+      expect(candidate.length).toBeLessThanOrEqual(8);
+      expect(candidate.name).not.toContain("-");
+      expect(candidate.name).not.toContain("get");
+    }
+  });
+
+  it("resolves a vibe alias to its profile and uses the profile's TLDs", () => {
+    const result = generateDomainCandidates({ keywords: ["pet"], vibe: "fun" }, CONTEXT);
+
+    expect(result.vibe).toBe("fun");
+    expect(result.vibeProfile).toBe("playful");
+    expect(result.tlds.slice(0, 3)).toEqual([".app", ".io", ".co"]);
+    expect(result.candidates.every((candidate) => candidate.length <= 12)).toBe(true);
+  });
+
+  it("returns IDN candidates in ASCII form with a Unicode rendering", () => {
+    const result = generateDomainCandidates({ keywords: ["München"], tlds: [".de"] }, CONTEXT);
+
+    expect(result.candidates[0]).toMatchObject({
+      domain: "xn--mnchen-3ya.de",
+      unicode: "münchen.de",
+      name: "münchen",
+      length: 7,
+    });
+  });
+});
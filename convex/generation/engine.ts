@@ -0,0 +1,206 @@
+/**
+ * The domain generation engine: one typed entry point behind the agent's generateDomainNames
+ * tool and the HTTP API. Callers load the enabled strategies, the TLD catalog and the vibe
+ * profiles; everything else (keyword cleanup, vibe, TLD resolution, constraints, limits)
+ * happens here.
+ */
+
+import { parseDomain } from "../lib/domainName";
+import { toAsciiDomain, toUnicodeDomain } from "../lib/idn";
+import { isPublicSuffix } from "../lib/publicSuffix";
+import { type TldCatalogEntry, defaultGenerationTlds } from "../lib/tldCatalog";
+import { type StrategyDefinition, generateFromStrategies } from "./strategies";
+import { IDEAL_LENGTH_TOLERANCE, type VibeProfile, findVibeProfile } from "./vibes";
+
+export const DEFAULT_MAX_RESULTS = 20;
+export const MAX_RESULTS_LIMIT = 100;
+export const DEFAULT_MAX_KEYWORDS = 5;
+// Pattern and blend work grows with the permutations of the keywords
+export const MAX_KEYWORDS_LIMIT = 10;
+
+export interface GenerationLimits {
+  maxResults?: number;
+  // Keywords past this many are ignored
+  maxKeywords?: number;
+}
+
+// Filters on the registrable name (without suffix), measured in characters as displayed
+export interface GenerationConstraints {
+  minLength?: number;
+  maxLength?: number;
+  allowHyphens?: boolean;
+  allowDigits?: boolean;
+  // Names containing any of these are dropped
+  exclude?: string[];
+}
+
+export interface GenerationRequest {
+  keywords: string[];
+  vibe?: string;
+  // TLDs or second-level suffixes, with or without the dot; the catalog defaults when empty
+  tlds?: string[];
+  limits?: GenerationLimits;
+  constraints?: GenerationConstraints;
+}
+
+export interface GenerationContext {
+  strategies: StrategyDefinition[];
+  catalog: TldCatalogEntry[];
+  vibes: VibeProfile[];
+}
+
+export interface GeneratedCandidate {
+  // ASCII form, ready for checkDomainAvailability
+  domain: string;
+  unicode: string;
+  name: string;
+  suffix: string;
+  length: number;
+  strategy: string;
+  pattern: string;
+}
+
+export interface GenerationResult {
+  candidates: GeneratedCandidate[];
+  keywords: string[];
+  // Suffixes generated on, in order
+  tlds: string[];
+  // Requested TLDs that aren't public suffixes or are disabled in the catalog
+  ignoredTlds: string[];
+  vibe?: string;
+  // Profile the vibe resolved to; unset when no profile matched
+  vibeProfile?: string;
+}
+
+export function generateDomainCandidates(
+  request: GenerationRequest,
+  context: GenerationContext
+): GenerationResult {
+  const maxKeywords = Math.min(
+    request.limits?.maxKeywords ?? DEFAULT_MAX_KEYWORDS,
+    MAX_KEYWORDS_LIMIT
+  );
+  const maxResults = Math.min(request.limits?.maxResults ?? DEFAULT_MAX_RESULTS, MAX_RESULTS_LIMIT);
+
+  // Keep letters in any script so non-English brands survive (IDN)
+  const keywords = [
+    ...new Set(
+      request.keywords
+        .map((k) =>
+          k
+            .normalize("NFC")
+            .toLowerCase()
+            .replace(/[^\p{L}\p{M}\p{N}]/gu, "")
+        )
+        .filter((k) => k.length > 0)
+    ),
+  ].slice(0, maxKeywords);
+
+  const profile = findVibeProfile(request.vibe, context.vibes);
+  const { tlds, ignored } = resolveTlds(request.tlds ?? [], context.catalog, profile);
+  // Explicit constraints win over the profile's length preferences
+  const accepts = constraintFilter({
+    ...request.constraints,
+    minLength: request.constraints?.minLength ?? profile?.minLength,
+    maxLength: request.constraints?.maxLength ?? profile?.maxLength,
+  });
+
+  // A profile with its own affixes swaps them into every strategy
+  const strategies = context.strategies.map((strategy) => ({
+    ...strategy,
+    prefixes: profile?.prefixes.length ? profile.prefixes : strategy.prefixes,
+    suffixes: profile?.suffixes.length ? profile.suffixes : strategy.suffixes,
+  }));
+  const generated = generateFromStrategies(keywords, strategies, {
+    tlds,
+    weights: profile?.strategyWeights,
+  });
+
+  const candidates: GeneratedCandidate[] = [];
+  for (const candidate of generated) {
+    const parsed = parseDomain(candidate.domain);
+    if (!parsed.ok) {
+      continue;
+    }
+    const name = toUnicodeDomain(parsed.value.name);
+    if (!accepts(name)) {
+      continue;
+    }
+
+    candidates.push({
+      domain: parsed.value.domain,
+      unicode: parsed.value.unicode,
+      name,
+      suffix: parsed.value.suffix,
+      length: Array.from(name).length,
+      strategy: candidate.strategy,
+      pattern: candidate.pattern,
+    });
+  }
+
+  return {
+    candidates: preferIdealLength(candidates, profile?.idealLength).slice(0, maxResults),
+    keywords,
+    tlds,
+    ignoredTlds: ignored,
+    vibe: request.vibe,
+    vibeProfile: profile?.name,
+  };
+}
+
+// Stable: names near the ideal length move ahead, the strategy interleaving stays within each group
+function preferIdealLength(
+  candidates: GeneratedCandidate[],
+  idealLength: number | undefined
+): GeneratedCandidate[] {
+  if (idealLength === undefined) {
+    return candidates;
+  }
+  const near = (candidate: GeneratedCandidate): boolean =>
+    Math.abs(candidate.length - idealLength) <= IDEAL_LENGTH_TOLERANCE;
+  return [...candidates.filter(near), ...candidates.filter((candidate) => !near(candidate))];
+}
+
+// Only suffixes on the Public Suffix List can take a registration (".co.uk" yes, ".foo.bar" no)
+function resolveTlds(
+  requested: string[],
+  catalog: TldCatalogEntry[],
+  profile: VibeProfile | undefined
+): { tlds: string[]; ignored: string[] } {
+  const disabled = new Set(catalog.filter((tld) => !tld.enabled).map((tld) => tld.tld));
+  const tlds: string[] = [];
+  const ignored: string[] = [];
+
+  for (const raw of requested) {
+    const ascii = toAsciiDomain(raw.trim()).replace(/^\./, "");
+    if (isPublicSuffix(ascii) && !disabled.has(`.${ascii}`)) {
+      tlds.push(`.${toUnicodeDomain(ascii)}`);
+    } else {
+      ignored.push(raw);
+    }
+  }
+
+  if (tlds.length > 0) {
+    return { tlds: [...new Set(tlds)], ignored };
+  }
+
+  // No usable request: the vibe's preferred TLDs lead, the catalog defaults follow
+  const preferred = (profile?.tlds ?? [])
+    .map((tld) => `.${toAsciiDomain(tld.trim()).replace(/^\./, "")}`)
+    .filter((tld) => !disabled.has(tld));
+  return { tlds: [...new Set([...preferred, ...defaultGenerationTlds(catalog)])], ignored };
+}
+
+function constraintFilter(constraints: GenerationConstraints = {}): (name: string) => boolean {
+  const exclude = (constraints.exclude ?? []).map((word) => word.toLowerCase()).filter(Boolean);
+  return (name) => {
+    const length = Array.from(name).length;
+    return (
+      length >= (constraints.minLength ?? 1) &&
+      length <= (constraints.maxLength ?? Number.POSITIVE_INFINITY) &&
+      (constraints.allowHyphens !== false || !name.includes("-")) &&
+      (constraints.allowDigits !== false || !/\p{N}/u.test(name)) &&
+      !exclude.some((word) => name.includes(word))
+    );
+  };
+}
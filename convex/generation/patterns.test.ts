@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { type PatternBindings, evaluatePattern, parsePattern, validatePatterns } from "./patterns";
+
+const BINDINGS: PatternBindings = {
+  keywords: ["pet", "care", "food"],
+  prefixes: ["get"],
+  suffixes: ["ly", "hub"],
+};
+
+function names(pattern: string, bindings: Partial<PatternBindings> = {}): string[] {
+  const result = parsePattern(pattern);
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return evaluatePattern(result.value, { ...BINDINGS, ...bindings }).map((e) => e.name);
+}
+
+describe("parsePattern", () => {
+  it("parses placeholders, operations, optional parts and TLDs", () => {
+    const result = parsePattern("[{prefix}]{keyword|novowels:4}ly@.com,.co.uk");
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        source: "[{prefix}]{keyword|novowels:4}ly@.com,.co.uk",
+        segments: [
+          {
+            kind: "optional",
+            segments: [{ kind: "placeholder", source: "prefix", index: undefined, operations: [] }],
+          },
+          {
+            kind: "placeholder",
+            source: "keyword",
+            index: undefined,
+            operations: [{ kind: "dropVowels" }, { kind: "truncate", length: 4 }],
+          },
+          { kind: "literal", text: "ly" },
+        ],
+        tlds: [".com", ".co.uk"],
+      },
+    });
+  });
+
+  it.each([
+    ["", 0, "Pattern is empty"],
+    ["{keyword", 0, "Placeholder is missing its closing }"],
+    ["{brand}", 1, "Unknown placeholder {brand} - use {keyword}, {prefix} or {suffix}"],
+    ["{prefix2}", 1, "{prefix2} - only keywords can be numbered, starting at 1"],
+    ["{keyword|caps}", 8, "Unknown modifier |caps - use |novowels"],
+    ["{keyword*9}", 8, "Repeat count must be between 2 and 4"],
+    ["{keyword:0}", 8, "Truncation length must be at least 1"],
+    ["[{prefix}", 0, "Optional part is missing its closing ]"],
+    ["{keyword}]", 9, 'Unexpected "]" with no matching ['],
+    ["{keyword}.io", 9, 'Unexpected "." - literals can only use letters, digits and hyphens'],
+    ["{keyword}@.notatld", 10, '".notatld" isn\'t a TLD names can be registered under'],
+  ])("reports %j at %i", (pattern, position, message) => {
+    expect(parsePattern(pattern)).toEqual({ ok: false, error: { pattern, position, message } });
+  });
+});
+
+describe("validatePatterns", () => {
+  it("collects the errors of every pattern that doesn't parse", () => {
+    expect(validatePatterns(["{keyword}ly", "{nope}", "get{keyword}"])).toEqual([
+      expect.objectContaining({ pattern: "{nope}", position: 1 }),
+    ]);
+  });
+});
+
+describe("evaluatePattern", () => {
+  it("takes each keyword and affix in turn", () => {
+    expect(names("{keyword}{suffix}", { keywords: ["pet", "care"] })).toEqual([
+      "petly",
+      "pethub",
+      "carely",
+      "carehub",
+    ]);
+  });
+
+  it("renders optional parts without, then with their values", () => {
+    expect(names("[{prefix}]{keyword}", { keywords: ["pet"] })).toEqual(["pet", "getpet"]);
+    expect(names("{keyword}[{suffix}]", { keywords: ["pet"], suffixes: [] })).toEqual(["pet"]);
+  });
+
+  it("runs numbered keywords over every ordering of distinct keywords", () => {
+    expect(names("{keyword1}{keyword2}")).toEqual([
+      "petcare",
+      "petfood",
+      "carepet",
+      "carefood",
+      "foodpet",
+      "foodcare",
+    ]);
+  });
+
+  it("skips a numbered keyword past the last one only inside an optional part", () => {
+    expect(names("{keyword1}[{keyword3}]", { keywords: ["pet", "care"] })).toEqual(["pet", "care"]);
+    expect(names("{keyword1}{keyword3}", { keywords: ["pet", "care"] })).toEqual([]);
+  });
+
+  it("applies operations left to right", () => {
+    expect(names("{keyword|novowels:4}", { keywords: ["flicker"] })).toEqual(["flck"]);
+    expect(names("{keyword:4|novowels}", { keywords: ["flicker"] })).toEqual(["flc"]);
+    expect(names("{keyword*2}", { keywords: ["yum"] })).toEqual(["yumyum"]);
+  });
+
+  it("stops at 200 names however many keywords and affixes there are", () => {
+    const keywords = Array.from({ length: 20 }, (_, i) => `word${i}`);
+    const suffixes = Array.from({ length: 20 }, (_, i) => `end${i}`);
+    expect(names("{keyword1}{keyword2}{suffix}", { keywords, suffixes })).toHaveLength(200);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Pattern language for ideation strategies. A pattern spells out a name from keywords and
+ * the strategy's affixes:
+ *
+ *   {keyword}            each keyword in turn
+ *   {keyword1}{keyword2} distinct keywords, in every order ("pet", "care" -> petcare, carepet)
+ *   {prefix} {suffix}    each of the strategy's prefixes / suffixes
+ *   {keyword:4}          truncate to 4 characters
+ *   {keyword|novowels}   drop vowels after the first letter ("flicker" -> "flckr")
+ *   {keyword*2}          repeat ("yum" -> "yumyum")
+ *   ly, go-              literal text
+ *   [{prefix}]           optional: with and without
+ *   ... @.com,.co.uk     try this pattern on these TLDs only
+ *
+ * Operations apply left to right: {keyword|novowels:4} drops vowels, then truncates.
+ */
+
+import { toAsciiDomain } from "../lib/idn";
+import { isPublicSuffix } from "../lib/publicSuffix";
+
+export type PatternSource = "keyword" | "prefix" | "suffix";
+
+export type PatternOperation =
+  | { kind: "truncate"; length: number }
+  | { kind: "dropVowels" }
+  | { kind: "repeat"; times: number };
+
+export type PatternSegment =
+  | { kind: "literal"; text: string }
+  | {
+      kind: "placeholder";
+      source: PatternSource;
+      // 1-based keyword index for {keyword2}; unset means "each keyword"
+      index?: number;
+      operations: PatternOperation[];
+    }
+  | { kind: "optional"; segments: PatternSegment[] };
+
+export interface ParsedPattern {
+  source: string;
+  segments: PatternSegment[];
+  // Suffixes with a leading dot, ASCII; unset means the caller's TLDs
+  tlds?: string[];
+}
+
+/**
+ * Why a pattern doesn't parse, worded so the agent can fix it
+ */
+export interface PatternParseError {
+  pattern: string;
+  // Character offset the problem was found at
+  position: number;
+  message: string;
+}
+
+export type PatternParseResult =
+  | { ok: true; value: ParsedPattern }
+  | { ok: false; error: PatternParseError };
+
+export interface PatternBindings {
+  keywords: string[];
+  prefixes: string[];
+  suffixes: string[];
+}
+
+export interface PatternExpansion {
+  name: string;
+  // The values the name was built from; keyword is unset when only {keywordN} was used
+  keyword?: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+const SOURCES: PatternSource[] = ["keyword", "prefix", "suffix"];
+const MAX_REPEAT = 4;
+// A pattern with many affixes and optional parts multiplies fast; stop expanding past this
+const MAX_EXPANSIONS = 200;
+// Orderings tried for {keyword1}..{keywordN}, for patterns whose orderings mostly repeat names
+const MAX_KEYWORD_ORDERINGS = 1000;
+
+const LITERAL_CHAR = /[\p{L}\p{M}\p{N}-]/u;
+
+/**
+ * Parse a pattern string, or report the first problem with its position
+ */
+export function parsePattern(pattern: string): PatternParseResult {
+  const fail = (position: number, message: string): PatternParseResult => ({
+    ok: false,
+    error: { pattern, position, message },
+  });
+
+  const tldsAt = pattern.indexOf("@");
+  const body = tldsAt === -1 ? pattern : pattern.slice(0, tldsAt);
+
+  let tlds: string[] | undefined;
+  if (tldsAt !== -1) {
+    tlds = [];
+    let offset = tldsAt + 1;
+    for (const raw of pattern.slice(tldsAt + 1).split(",")) {
+      const tld = toAsciiDomain(raw.trim()).replace(/^\./, "");
+      if (!isPublicSuffix(tld)) {
+        return fail(offset, `"${raw.trim()}" isn't a TLD names can be registered under`);
+      }
+      tlds.push(`.${tld}`);
+      offset += raw.length + 1;
+    }
+  }
+
+  let position = 0;
+
+  const parseSegments = (closing?: string): PatternSegment[] | PatternParseResult => {
+    const segments: PatternSegment[] = [];
+    while (position < body.length) {
+      const char = body[position];
+
+      if (char === closing) {
+        return segments;
+      }
+      if (char === "]") {
+        return fail(position, 'Unexpected "]" with no matching [');
+      }
+      if (char === "{") {
+        const placeholder = parsePlaceholder();
+        if ("ok" in placeholder) return placeholder;
+        segments.push(placeholder);
+        continue;
+      }
+      if (char === "[") {
+        const start = position++;
+        const inner = parseSegments("]");
+        if (!Array.isArray(inner)) return inner;
+        if (position >= body.length) return fail(start, "Optional part is missing its closing ]");
+        if (inner.length === 0) return fail(start, "Optional part [] is empty");
+        position++;
+        segments.push({ kind: "optional", segments: inner });
+        continue;
+      }
+      if (LITERAL_CHAR.test(char)) {
+        const start = position;
+        while (position < body.length && LITERAL_CHAR.test(body[position])) position++;
+        segments.push({ kind: "literal", text: body.slice(start, position).toLowerCase() });
+        continue;
+      }
+      return fail(
+        position,
+        `Unexpected "${char}" - literals can only use letters, digits and hyphens`
+      );
+    }
+    return segments;
+  };
+
+  const parsePlaceholder = (): PatternSegment | PatternParseResult => {
+    const start = position;
+    const end = body.indexOf("}", start);
+    if (end === -1) {
+      return fail(start, "Placeholder is missing its closing }");
+    }
+
+    const inner = body.slice(start + 1, end);
+    const head = inner.match(/^([a-z]+)(\d*)/);
+    const source = head?.[1] as PatternSource | undefined;
+    if (!source || !SOURCES.includes(source)) {
+      return fail(
+        start + 1,
+        `Unknown placeholder {${head?.[1] ?? inner}} - use {keyword}, {prefix} or {suffix}`
+      );
+    }
+    const index = head?.[2] ? Number(head[2]) : undefined;
+    if (index !== undefined && (source !== "keyword" || index < 1)) {
+      return fail(start + 1, `{${head?.[0]}} - only keywords can be numbered, starting at 1`);
+    }
+
+    const operations: PatternOperation[] = [];
+    let rest = inner.slice(head?.[0].length ?? 0);
+    let offset = start + 1 + (head?.[0].length ?? 0);
+    while (rest.length > 0) {
+      const op = rest.match(/^(?::(\d+)|\|([a-z]+)|\*(\d+))/);
+      if (!op) {
+        return fail(offset, `Unexpected "${rest[0]}" in placeholder - use :N, |novowels or *N`);
+      }
+      if (op[1] !== undefined) {
+        const length = Number(op[1]);
+        if (length < 1) return fail(offset, "Truncation length must be at least 1");
+        operations.push({ kind: "truncate", length });
+      } else if (op[2] !== undefined) {
+        if (op[2] !== "novowels") return fail(offset, `Unknown modifier |${op[2]} - use |novowels`);
+        operations.push({ kind: "dropVowels" });
+      } else {
+        const times = Number(op[3]);
+        if (times < 2 || times > MAX_REPEAT) {
+          return fail(offset, `Repeat count must be between 2 and ${MAX_REPEAT}`);
+        }
+        operations.push({ kind: "repeat", times });
+      }
+      rest = rest.slice(op[0].length);
+      offset += op[0].length;
+    }
+
+    position = end + 1;
+    return { kind: "placeholder", source, index, operations };
+  };
+
+  const segments = parseSegments();
+  if (!Array.isArray(segments)) {
+    return segments;
+  }
+  if (segments.length === 0) {
+    return fail(0, "Pattern is empty");
+  }
+
+  return { ok: true, value: { source: pattern, segments, tlds } };
+}
+
+/**
+ * Parse errors for a strategy's patterns, empty when they're all valid
+ */
+export function validatePatterns(patterns: string[]): PatternParseError[] {
+  return patterns.flatMap((pattern) => {
+    const result = parsePattern(pattern);
+    return result.ok ? [] : [result.error];
+  });
+}
+
+/**
+ * Every name a parsed pattern produces for the given keywords and affixes.
+ * {keyword}, {prefix} and {suffix} each take one value per name, however often they appear;
+ * {keyword1}..{keywordN} run over every ordered choice of N distinct keywords.
+ */
+export function evaluatePattern(
+  pattern: ParsedPattern,
+  bindings: PatternBindings
+): PatternExpansion[] {
+  const used = new Set<PatternSource>();
+  collectSources(pattern.segments, used);
+  // Past the last keyword, {keywordN} is missing (fine inside [...])
+  const orderings = keywordOrderings(
+    bindings.keywords,
+    Math.min(maxKeywordIndex(pattern.segments), bindings.keywords.length)
+  );
+
+  // An empty list still gets one pass, so optional parts can render without it
+  const valuesOf = (source: PatternSource, values: string[]): (string | undefined)[] =>
+    used.has(source) && values.length > 0 ? values : [undefined];
+  const keywords = valuesOf("keyword", bindings.keywords);
+  const prefixes = valuesOf("prefix", bindings.prefixes);
+  const suffixes = valuesOf("suffix", bindings.suffixes);
+
+  const expansions: PatternExpansion[] = [];
+  const seen = new Set<string>();
+  let tried = 0;
+  for (const ordering of orderings) {
+    if (++tried > MAX_KEYWORD_ORDERINGS) {
+      break;
+    }
+    for (const keyword of keywords) {
+      for (const prefix of prefixes) {
+        for (const suffix of suffixes) {
+          const values = { keyword, prefix, suffix };
+          for (const name of renderSegments(pattern.segments, values, ordering)) {
+            if (name.length > 0 && !seen.has(name)) {
+              seen.add(name);
+              expansions.push({ name, keyword, prefix, suffix });
+            }
+            if (expansions.length >= MAX_EXPANSIONS) {
+              return expansions;
+            }
+          }
+        }
+      }
+    }
+  }
+  return expansions;
+}
+
+// Ordered choices of `count` distinct keywords ([a, b], [b, a], ...); one empty choice for 0.
+// Lazy, since there are n!/(n-count)! of them and evaluation stops well short of that
+function* keywordOrderings(keywords: string[], count: number): Generator<string[]> {
+  if (count === 0) {
+    yield [];
+    return;
+  }
+  for (let i = 0; i < keywords.length; i++) {
+    const rest = keywords.filter((_, j) => j !== i);
+    for (const ordering of keywordOrderings(rest, count - 1)) {
+      yield [keywords[i], ...ordering];
+    }
+  }
+}
+
+function maxKeywordIndex(segments: PatternSegment[]): number {
+  return Math.max(
+    0,
+    ...segments.map((segment) => {
+      if (segment.kind === "optional") {
+        return maxKeywordIndex(segment.segments);
+      }
+      return segment.kind === "placeholder" ? (segment.index ?? 0) : 0;
+    })
+  );
+}
+
+type BoundValues = { keyword?: string; prefix?: string; suffix?: string };
+
+// Variants of a segment list; an empty array means a required value was missing
+function renderSegments(
+  segments: PatternSegment[],
+  values: BoundValues,
+  keywords: string[]
+): string[] {
+  let variants = [""];
+  for (const segment of segments) {
+    const options = renderSegment(segment, values, keywords);
+    if (options.length === 0) {
+      return [];
+    }
+    variants = variants.flatMap((prefix) => options.map((option) => prefix + option));
+  }
+  return variants;
+}
+
+function renderSegment(segment: PatternSegment, values: BoundValues, keywords: string[]): string[] {
+  if (segment.kind === "literal") {
+    return [segment.text];
+  }
+  if (segment.kind === "optional") {
+    // Leaving it out is always possible, even when its values are missing
+    return ["", ...renderSegments(segment.segments, values, keywords)];
+  }
+
+  const value = segment.index !== undefined ? keywords[segment.index - 1] : values[segment.source];
+  return value === undefined ? [] : [applyOperations(value, segment.operations)];
+}
+
+function applyOperations(value: string, operations: PatternOperation[]): string {
+  let current = value;
+  for (const operation of operations) {
+    const chars = Array.from(current);
+    if (operation.kind === "truncate") {
+      current = chars.slice(0, operation.length).join("");
+    } else if (operation.kind === "dropVowels") {
+      current = chars.filter((char, i) => i === 0 || !/[aeiou]/.test(char)).join("");
+    } else {
+      current = current.repeat(operation.times);
+    }
+  }
+  return current;
+}
+
+function collectSources(segments: PatternSegment[], used: Set<PatternSource>): void {
+  for (const segment of segments) {
+    if (segment.kind === "placeholder" && segment.index === undefined) {
+      used.add(segment.source);
+    } else if (segment.kind === "optional") {
+      collectSources(segment.segments, used);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STRATEGIES, unseededDefaults } from "./strategies";
+
+const names = (seeded: string[], hasStrategies: boolean): string[] =>
+  unseededDefaults(new Set(seeded), hasStrategies).map((strategy) => strategy.name);
+
+describe("unseededDefaults", () => {
+  it("seeds every default on a fresh deployment", () => {
+    expect(names([], false)).toEqual(DEFAULT_STRATEGIES.map((strategy) => strategy.name));
+  });
+
+  it("doesn't seed a default again after the user deleted it", () => {
+    const seeded = DEFAULT_STRATEGIES.map((strategy) => strategy.name);
+    expect(names(seeded, true)).toEqual([]);
+    expect(names(seeded, false)).toEqual([]);
+  });
+
+  it("only seeds later defaults on deployments seeded before names were recorded", () => {
+    expect(names([], true)).toEqual(["Blends"]);
+  });
+});
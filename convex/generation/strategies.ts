@@ -0,0 +1,223 @@
+/**
+ * Candidate generation from the ideationStrategies table. Every candidate is tagged with the
+ * strategy and pattern that produced it, so edits to a strategy show up in what the agent suggests.
+ * Pattern syntax lives in ./patterns, blending in ./blends.
+ */
+
+import { parseDomain } from "../lib/domainName";
+import { labelScripts } from "../lib/idn";
+import { blendKeywords } from "./blends";
+import { type PatternExpansion, evaluatePattern, parsePattern } from "./patterns";
+
+// "pattern" expands the strategy's patterns; "blend" merges keyword pairs and ignores them
+export type StrategyType = "pattern" | "blend";
+
+// The fields generation reads from an ideationStrategies row
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  // Unset means "pattern" (rows saved before blends existed)
+  type?: StrategyType;
+  prefixes: string[];
+  suffixes: string[];
+  patterns: string[];
+}
+
+export interface StrategyCandidate {
+  domain: string;
+  // Strategy name, or EXACT_KEYWORD_STRATEGY for the bare keywords
+  strategy: string;
+  pattern: string;
+}
+
+// Bare keywords on the leading TLDs aren't a table strategy, but still get a tag
+export const EXACT_KEYWORD_STRATEGY = "Exact Keywords";
+
+/**
+ * Seed for the ideationStrategies table, also the fallback while it hasn't been seeded
+ */
+export const DEFAULT_STRATEGIES: StrategyDefinition[] = [
+  {
+    name: "Prefixed Keywords",
+    description: "Add common prefixes like 'get', 'try', 'use' to keywords",
+    prefixes: ["get", "try", "use", "go", "hey", "my", "the", "just", "now"],
+    suffixes: [],
+    patterns: ["{prefix}{keyword}"],
+  },
+  {
+    name: "Suffixed Keywords",
+    description: "Add common suffixes like 'app', 'hq', 'hub' to keywords",
+    prefixes: [],
+    suffixes: ["app", "hq", "hub", "lab", "base", "ly", "ify", "er", "ster"],
+    patterns: ["{keyword}{suffix}"],
+  },
+  {
+    name: "Compound Words",
+    description: "Combine multiple keywords together",
+    prefixes: [],
+    suffixes: [],
+    patterns: ["{keyword1}{keyword2}", "{keyword2}{keyword1}"],
+  },
+  {
+    name: "Short Forms",
+    description: "Use abbreviations and shortened forms",
+    prefixes: [],
+    suffixes: [],
+    patterns: ["{keyword:3}", "{keyword:4}", "{keyword:5}"],
+  },
+  {
+    name: "Blends",
+    description:
+      "Blend two keywords at shared letters or syllables (pet + etiquette -> petiquette)",
+    type: "blend",
+    prefixes: [],
+    suffixes: [],
+    patterns: [],
+  },
+];
+
+// The defaults of the first seed, from before seeded names were recorded
+const FIRST_SEED_STRATEGIES = [
+  "Prefixed Keywords",
+  "Suffixed Keywords",
+  "Compound Words",
+  "Short Forms",
+];
+
+/**
+ * Defaults a seed run hasn't seeded yet. A default the user deleted stays deleted; deployments
+ * seeded before names were recorded count the first seed's defaults as seeded.
+ */
+export function unseededDefaults(
+  seededNames: ReadonlySet<string>,
+  hasStrategies: boolean
+): StrategyDefinition[] {
+  const seeded =
+    seededNames.size === 0 && hasStrategies ? new Set(FIRST_SEED_STRATEGIES) : seededNames;
+  return DEFAULT_STRATEGIES.filter((strategy) => !seeded.has(strategy.name));
+}
+
+export interface StrategyGenerationOptions {
+  // Suffixes with a leading dot, most relevant first
+  tlds: string[];
+  // How many TLDs bare keywords / strategy names are tried on
+  exactKeywordTlds?: number;
+  strategyTlds?: number;
+  maxResults?: number;
+  // Slots per interleaving round by strategy name (EXACT_KEYWORD_STRATEGY included);
+  // unlisted strategies get 1, 0 leaves a strategy out
+  weights?: Record<string, number>;
+}
+
+/**
+ * Expand every strategy's patterns over the keywords and interleave the results (bare keywords
+ * first), so each enabled strategy is represented before any one of them takes a second slot.
+ * Weights give a strategy more slots per round.
+ */
+export function generateFromStrategies(
+  keywords: string[],
+  strategies: StrategyDefinition[],
+  options: StrategyGenerationOptions
+): StrategyCandidate[] {
+  const exactTlds = options.tlds.slice(0, options.exactKeywordTlds ?? 4);
+  const strategyTlds = options.tlds.slice(0, options.strategyTlds ?? 2);
+
+  const exact: StrategyCandidate[] = keywords.flatMap((keyword) =>
+    exactTlds.map((tld) => ({
+      domain: `${keyword}${tld}`,
+      strategy: EXACT_KEYWORD_STRATEGY,
+      pattern: "{keyword}",
+    }))
+  );
+
+  const perStrategy = strategies.map((strategy) =>
+    strategy.type === "blend"
+      ? blendCandidates(keywords, strategy, strategyTlds)
+      : patternCandidates(keywords, strategy, strategyTlds)
+  );
+
+  const seen = new Set<string>();
+  const candidates: StrategyCandidate[] = [];
+  const add = (candidate: StrategyCandidate): void => {
+    // Drop names that don't parse, e.g. IDN labels the TLD's registry wouldn't accept
+    if (!seen.has(candidate.domain) && parseDomain(candidate.domain).ok) {
+      seen.add(candidate.domain);
+      candidates.push(candidate);
+    }
+  };
+
+  const weightOf = (name: string): number => Math.max(0, Math.round(options.weights?.[name] ?? 1));
+  const groups = [
+    { weight: weightOf(EXACT_KEYWORD_STRATEGY), candidates: exact },
+    ...strategies.map((strategy, i) => ({
+      weight: weightOf(strategy.name),
+      candidates: perStrategy[i],
+    })),
+  ].filter((group) => group.weight > 0);
+
+  const rounds = Math.max(
+    0,
+    ...groups.map((group) => Math.ceil(group.candidates.length / group.weight))
+  );
+  for (let round = 0; round < rounds; round++) {
+    for (const group of groups) {
+      const start = round * group.weight;
+      group.candidates.slice(start, start + group.weight).forEach(add);
+    }
+  }
+
+  return options.maxResults === undefined ? candidates : candidates.slice(0, options.maxResults);
+}
+
+function patternCandidates(
+  keywords: string[],
+  strategy: StrategyDefinition,
+  tlds: string[]
+): StrategyCandidate[] {
+  return strategy.patterns.flatMap((source) => {
+    // Patterns are validated on save; one that still doesn't parse just contributes nothing
+    const parsed = parsePattern(source);
+    if (!parsed.ok) {
+      return [];
+    }
+    const expansions = evaluatePattern(parsed.value, {
+      keywords,
+      prefixes: strategy.prefixes,
+      suffixes: strategy.suffixes,
+    });
+    return expansions
+      .filter((expansion) => !usesAffixesOnNonLatin(expansion))
+      .flatMap(({ name }) =>
+        (parsed.value.tlds ?? tlds).map((tld) => ({
+          domain: `${name}${tld}`,
+          strategy: strategy.name,
+          pattern: source,
+        }))
+      );
+  });
+}
+
+// Tagged with the keywords blended, in order ("pet + etiquette")
+function blendCandidates(
+  keywords: string[],
+  strategy: StrategyDefinition,
+  tlds: string[]
+): StrategyCandidate[] {
+  return blendKeywords(keywords).flatMap(({ name, first, second }) =>
+    tlds.map((tld) => ({
+      domain: `${name}${tld}`,
+      strategy: strategy.name,
+      pattern: `${first} + ${second}`,
+    }))
+  );
+}
+
+// English prefixes/suffixes only read well on Latin keywords
+function usesAffixesOnNonLatin(expansion: PatternExpansion): boolean {
+  const affixed = expansion.prefix !== undefined || expansion.suffix !== undefined;
+  return (
+    affixed &&
+    expansion.keyword !== undefined &&
+    !labelScripts(expansion.keyword).every((script) => script === "Latin")
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Syllable splitting with Liang's hyphenation algorithm (the one TeX uses) over the bundled
+ * US English patterns. Hyphenation points are a close enough stand-in for syllable
+ * boundaries to blend keywords on ("motor" -> mo|tor, "etiquette" -> e|ti|quette).
+ */
+
+import hyphenation from "./data/hyphenation-en-us.json";
+
+// TeX's 2/3 keeps hyphens away from word edges; syllables can be shorter than that
+const LEFT_MIN = 1;
+const RIGHT_MIN = 2;
+const VOWEL = /[aeiouy]/;
+
+let patterns: Map<string, number[]> | undefined;
+
+// Letters of each pattern -> the priority before each letter (and after the last)
+function getPatterns(): Map<string, number[]> {
+  if (!patterns) {
+    patterns = new Map();
+    for (const pattern of hyphenation.patterns) {
+      const letters = pattern.replace(/\d/g, "");
+      const priorities = new Array<number>(letters.length + 1).fill(0);
+      let index = 0;
+      for (const char of pattern) {
+        if (/\d/.test(char)) {
+          priorities[index] = Number(char);
+        } else {
+          index++;
+        }
+      }
+      patterns.set(letters, priorities);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Syllables of a lowercase a-z word; anything else comes back whole
+ */
+export function splitSyllables(word: string): string[] {
+  if (!/^[a-z]+$/.test(word) || word.length <= LEFT_MIN + RIGHT_MIN - 1) {
+    return [word];
+  }
+
+  const dotted = `.${word}.`;
+  const priorities = new Array<number>(dotted.length + 1).fill(0);
+  const table = getPatterns();
+  for (let start = 0; start < dotted.length; start++) {
+    for (let end = start + 1; end <= dotted.length; end++) {
+      const match = table.get(dotted.slice(start, end));
+      match?.forEach((priority, offset) => {
+        priorities[start + offset] = Math.max(priorities[start + offset], priority);
+      });
+    }
+  }
+
+  // An odd priority before word[i] (dotted[i + 1]) allows a break there
+  const pieces: string[] = [];
+  let from = 0;
+  for (let i = LEFT_MIN; i <= word.length - RIGHT_MIN; i++) {
+    if (priorities[i + 1] % 2 === 1) {
+      pieces.push(word.slice(from, i));
+      from = i;
+    }
+  }
+  pieces.push(word.slice(from));
+
+  // A piece without a vowel ("s|pan|ish") isn't a syllable: it joins its neighbour
+  const syllables: string[] = [];
+  for (const piece of pieces) {
+    if (syllables.length > 0 && !VOWEL.test(piece)) {
+      syllables[syllables.length - 1] += piece;
+    } else if (syllables.length === 1 && !VOWEL.test(syllables[0])) {
+      syllables[0] += piece;
+    } else {
+      syllables.push(piece);
+    }
+  }
+  return syllables;
+}
@@ -0,0 +1,186 @@
+/**
+ * Vibe profiles: what "playful" or "enterprise" means for generation. A profile weights the
+ * strategies, can swap in its own affixes, and prefers certain name lengths and TLDs.
+ */
+
+import { toAsciiDomain } from "../lib/idn";
+import { isPublicSuffix } from "../lib/publicSuffix";
+import { EXACT_KEYWORD_STRATEGY } from "./strategies";
+
+// The fields generation reads from a vibeProfiles row
+export interface VibeProfile {
+  // Lowercase identifier the agent passes as vibe ("playful")
+  name: string;
+  description: string;
+  // Other words that should pick this profile ("fun", "quirky")
+  aliases: string[];
+  // Slots per interleaving round by strategy name; unlisted strategies get 1, 0 drops one
+  strategyWeights: Record<string, number>;
+  // When non-empty, these replace every strategy's own prefixes / suffixes
+  prefixes: string[];
+  suffixes: string[];
+  minLength?: number;
+  maxLength?: number;
+  // Names within IDEAL_LENGTH_TOLERANCE of this are listed first
+  idealLength?: number;
+  // Tried before the catalog defaults when the request names no TLDs
+  tlds: string[];
+}
+
+export const MAX_STRATEGY_WEIGHT = 5;
+export const IDEAL_LENGTH_TOLERANCE = 2;
+
+/**
+ * Seed for the vibeProfiles table, also the fallback while it hasn't been seeded
+ */
+export const DEFAULT_VIBE_PROFILES: VibeProfile[] = [
+  {
+    name: "enterprise",
+    description: "Plain, trustworthy names: keywords and compounds on .com",
+    aliases: ["professional", "corporate", "business", "serious", "formal"],
+    strategyWeights: {
+      [EXACT_KEYWORD_STRATEGY]: 2,
+      "Compound Words": 3,
+      "Prefixed Keywords": 0,
+      "Suffixed Keywords": 0,
+      "Short Forms": 1,
+      Blends: 0,
+    },
+    prefixes: [],
+    suffixes: [],
+    minLength: 4,
+    maxLength: 15,
+    idealLength: 10,
+    tlds: [".com", ".co"],
+  },
+  {
+    name: "playful",
+    description: "Friendly, bouncy names with -ly/-ify endings, on app-style TLDs",
+    aliases: ["fun", "quirky", "friendly", "casual", "cute"],
+    strategyWeights: {
+      "Suffixed Keywords": 3,
+      "Prefixed Keywords": 2,
+      "Compound Words": 1,
+      "Short Forms": 0,
+      Blends: 2,
+    },
+    prefixes: ["hey", "go", "yay", "my"],
+    suffixes: ["ly", "ify", "oo", "ster"],
+    maxLength: 12,
+    idealLength: 8,
+    tlds: [".app", ".io", ".co"],
+  },
+  {
+    name: "minimal",
+    description: "Short, clean names with no affixes",
+    aliases: ["clean", "simple", "short", "sleek"],
+    strategyWeights: {
+      [EXACT_KEYWORD_STRATEGY]: 2,
+      "Short Forms": 3,
+      "Compound Words": 1,
+      "Prefixed Keywords": 0,
+      "Suffixed Keywords": 0,
+    },
+    prefixes: [],
+    suffixes: [],
+    maxLength: 8,
+    idealLength: 5,
+    tlds: [".com", ".io", ".co"],
+  },
+  {
+    name: "techy",
+    description: "Developer-tool names: use/get prefixes, hq/lab/stack endings, .dev and .io",
+    aliases: ["tech", "developer", "dev", "technical"],
+    strategyWeights: {
+      "Suffixed Keywords": 2,
+      "Prefixed Keywords": 2,
+    },
+    prefixes: ["use", "get", "try"],
+    suffixes: ["hq", "lab", "base", "stack", "ops"],
+    maxLength: 14,
+    idealLength: 8,
+    tlds: [".dev", ".io", ".app"],
+  },
+];
+
+/**
+ * Profile for a free-form vibe: exact name first, then aliases, then any word of the vibe
+ * ("fun and friendly" -> playful). Undefined when nothing matches.
+ */
+export function findVibeProfile(
+  vibe: string | undefined,
+  profiles: VibeProfile[]
+): VibeProfile | undefined {
+  const normalized = vibe?.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+
+  const matches =
+    (word: string) =>
+    (profile: VibeProfile): boolean =>
+      profile.name === word || profile.aliases.includes(word);
+  return (
+    profiles.find(matches(normalized)) ??
+    normalized
+      .split(/[^\p{L}\p{N}]+/u)
+      .map((word) => profiles.find(matches(word)))
+      .find((profile) => profile !== undefined)
+  );
+}
+
+/**
+ * Problems with a profile, worded for the agent; empty when it can be saved
+ */
+export function validateVibeProfile(profile: VibeProfile, strategyNames: string[]): string[] {
+  const errors: string[] = [];
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(profile.name)) {
+    errors.push("name must be lowercase letters, digits and hyphens (e.g. 'retro-fun')");
+  }
+
+  const known = new Set([...strategyNames, EXACT_KEYWORD_STRATEGY]);
+  for (const [strategy, weight] of Object.entries(profile.strategyWeights)) {
+    if (!known.has(strategy)) {
+      errors.push(`strategyWeights: no strategy named "${strategy}"`);
+    }
+    if (!Number.isInteger(weight) || weight < 0 || weight > MAX_STRATEGY_WEIGHT) {
+      errors.push(
+        `strategyWeights: "${strategy}" must be a whole number from 0 to ${MAX_STRATEGY_WEIGHT}`
+      );
+    }
+  }
+
+  for (const affix of [...profile.prefixes, ...profile.suffixes]) {
+    if (!/^[\p{L}\p{M}\p{N}-]+$/u.test(affix)) {
+      errors.push(`"${affix}" can only use letters, digits and hyphens`);
+    }
+  }
+
+  const { minLength, idealLength, maxLength } = profile;
+  if (
+    [minLength, idealLength, maxLength].some(
+      (n) => n !== undefined && (!Number.isInteger(n) || n < 1)
+    )
+  ) {
+    errors.push("lengths must be positive whole numbers");
+  }
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    errors.push("minLength can't be more than maxLength");
+  }
+  if (
+    idealLength !== undefined &&
+    ((minLength !== undefined && idealLength < minLength) ||
+      (maxLength !== undefined && idealLength > maxLength))
+  ) {
+    errors.push("idealLength must be between minLength and maxLength");
+  }
+
+  for (const tld of profile.tlds) {
+    if (!isPublicSuffix(toAsciiDomain(tld.trim()))) {
+      errors.push(`"${tld}" isn't a TLD names can be registered under`);
+    }
+  }
+
+  return errors;
+}
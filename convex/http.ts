@@ -0,0 +1,102 @@
+import { httpRouter } from "convex/server";
+import { z } from "zod";
+import { internal } from "./_generated/api";
+import { httpAction } from "./_generated/server";
+import { type GenerationRequest, generateDomainCandidates } from "./generation/engine";
+import type { StrategyDefinition } from "./generation/strategies";
+import type { VibeProfile } from "./generation/vibes";
+import type { TldCatalogEntry } from "./lib/tldCatalog";
+
+const http = httpRouter();
+
+const MAX_BODY_BYTES = 16 * 1024;
+// Per string and per array in the request body
+const MAX_FIELD_LENGTH = 100;
+const MAX_LIST_LENGTH = 50;
+
+/**
+ * POST /api/generate - the same generation engine the agent uses.
+ * Body: { keywords: string[], vibe?, tlds?, limits?: { maxResults?, maxKeywords? },
+ * constraints?: { minLength?, maxLength?, allowHyphens?, allowDigits?, exclude? } }
+ * Unauthenticated, so bodies are capped at MAX_BODY_BYTES and lists at MAX_LIST_LENGTH.
+ */
+http.route({
+  path: "/api/generate",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    // The endpoint is public: refuse large bodies before reading them, and again after in case
+    // the Content-Length header was missing or wrong
+    const declaredLength = Number(request.headers.get("Content-Length") ?? 0);
+    if (declaredLength > MAX_BODY_BYTES) {
+      return json({ error: `Request body must be at most ${MAX_BODY_BYTES} bytes` }, 413);
+    }
+    const text = await request.text();
+    if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+      return json({ error: `Request body must be at most ${MAX_BODY_BYTES} bytes` }, 413);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return json({ error: "Request body must be JSON" }, 400);
+    }
+
+    const parsed = parseGenerationRequest(body);
+    if (typeof parsed === "string") {
+      return json({ error: parsed }, 400);
+    }
+
+    const [strategies, catalog, vibes]: [StrategyDefinition[], TldCatalogEntry[], VibeProfile[]] =
+      await Promise.all([
+        ctx.runQuery(internal.strategies.listEnabledInternal, {}),
+        ctx.runQuery(internal.tldCatalog.listInternal, {}),
+        ctx.runQuery(internal.vibeProfiles.listInternal, {}),
+      ]);
+    return json(generateDomainCandidates(parsed, { strategies, catalog, vibes }), 200);
+  }),
+});
+
+function json(data: unknown, status: number): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const positiveInteger = z.number().int().min(1);
+const shortStrings = z.array(z.string().max(MAX_FIELD_LENGTH)).max(MAX_LIST_LENGTH);
+
+// Unknown fields are dropped; limits past the engine's maximums are clamped there
+const generationRequestSchema = z.object({
+  keywords: shortStrings.min(1),
+  vibe: z.string().max(MAX_FIELD_LENGTH).optional(),
+  tlds: shortStrings.optional(),
+  limits: z
+    .object({
+      maxResults: positiveInteger.optional(),
+      maxKeywords: positiveInteger.optional(),
+    })
+    .optional(),
+  constraints: z
+    .object({
+      minLength: positiveInteger.optional(),
+      maxLength: positiveInteger.optional(),
+      allowHyphens: z.boolean().optional(),
+      allowDigits: z.boolean().optional(),
+      exclude: shortStrings.optional(),
+    })
+    .optional(),
+});
+
+// Returns the request, or a message saying which field is wrong
+function parseGenerationRequest(body: unknown): GenerationRequest | string {
+  const result = generationRequestSchema.safeParse(body);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+  }
+  return result.data;
+}
+
+export default http;
@@ -0,0 +1,60 @@
+/**
+ * Currency conversion for displaying registrar prices.
+ * Shared by Convex (registrar comparison, premium checks) and the browser: PriceSummary
+ * converts stored pricing into the user's currency client-side with the same bundled rates.
+ */
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Date the bundled rates were taken; they only need to be close enough to compare offers
+export const EXCHANGE_RATES_AS_OF = "2026-10-01";
+
+// Units of each currency per 1 USD
+const USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+  AUD: 1.52,
+  NZD: 1.66,
+  CHF: 0.88,
+  JPY: 149.5,
+  CNY: 7.19,
+  INR: 83.4,
+  SGD: 1.35,
+  HKD: 7.82,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.87,
+  PLN: 4.02,
+  BRL: 5.05,
+  MXN: 17.9,
+  ZAR: 18.6,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(USD_RATES);
+
+export function isSupportedCurrency(currency: string): boolean {
+  return currency.toUpperCase() in USD_RATES;
+}
+
+/**
+ * Convert an amount between ISO 4217 currencies using the bundled table.
+ * Returns undefined when either currency is unknown rather than guessing.
+ */
+export function convertCurrency(amount: number, from: string, to: string): number | undefined {
+  const fromRate = USD_RATES[from.toUpperCase()];
+  const toRate = USD_RATES[to.toUpperCase()];
+  if (fromRate === undefined || toRate === undefined) {
+    return undefined;
+  }
+  return (amount / fromRate) * toRate;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    maximumFractionDigits: amount >= 1000 ? 0 : 2,
+  }).format(amount);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseDomain, parseDomains } from "./domainName";
+
+describe("parseDomain", () => {
+  it("keeps only the registrable domain of a URL", () => {
+    const result = parseDomain(" HTTPS://user@WWW.Example.co.uk:8080/pricing?plan=pro ");
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        domain: "example.co.uk",
+        unicode: "example.co.uk",
+        name: "example",
+        suffix: ".co.uk",
+        hostname: "www.example.co.uk",
+      },
+    });
+  });
+
+  it("accepts Unicode and xn-- forms of the same IDN", () => {
+    for (const input of ["münchen.de", "xn--mnchen-3ya.de", "XN--MNCHEN-3YA.DE."]) {
+      const result = parseDomain(input);
+      expect(result.ok && result.value).toMatchObject({
+        domain: "xn--mnchen-3ya.de",
+        unicode: "münchen.de",
+        name: "xn--mnchen-3ya",
+      });
+    }
+  });
+
+  it.each([
+    ["", "empty"],
+    ["example", "missing_suffix"],
+    ["example..com", "empty_label"],
+    [`${"a".repeat(64)}.com`, "label_too_long"],
+    ["exa_mple.com", "invalid_characters"],
+    ["-example.com", "hyphen_position"],
+    ["ab--cd.com", "reserved_hyphens"],
+    ["xn--zz.com", "invalid_encoding"],
+    ["xn--abc.com", "invalid_encoding"],
+    ["co.uk", "suffix_only"],
+    ["bücher.io", "idn_script"],
+    ["мюнхен.de", "idn_script"],
+  ])("rejects %j as %s", (input, code) => {
+    const result = parseDomain(input);
+    expect(result.ok ? undefined : result.error.code).toBe(code);
+  });
+
+  it("names the Unicode label a registry would refuse", () => {
+    const result = parseDomain("💩.com");
+    expect(result.ok ? undefined : result.error.message).toBe(
+      '"💩" uses characters no registry accepts'
+    );
+  });
+});
+
+describe("parseDomains", () => {
+  it("deduplicates valid domains and keeps the errors apart", () => {
+    const { domains, invalid } = parseDomains(["example.com", "www.example.com", "nope", "a.io"]);
+    expect(domains.map((domain) => domain.domain)).toEqual(["example.com", "a.io"]);
+    expect(invalid.map((error) => error.input)).toEqual(["nope"]);
+  });
+});
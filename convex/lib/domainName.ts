@@ -0,0 +1,178 @@
+/**
+ * Domain name normalization and validation for every Convex entry point.
+ * The frontend reuses it (src/lib/utils.ts) so both sides agree on what a valid domain is.
+ */
+
+import { checkIdnScripts, decodeAceLabel, toAsciiDomain, toUnicodeDomain } from "./idn";
+import { getPublicSuffix } from "./publicSuffix";
+
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+export type DomainValidationCode =
+  | "empty"
+  | "too_long"
+  | "empty_label"
+  | "label_too_long"
+  | "invalid_characters"
+  | "hyphen_position"
+  | "reserved_hyphens"
+  | "invalid_encoding"
+  | "missing_suffix"
+  | "suffix_only"
+  | "idn_script";
+
+/**
+ * Why an input isn't a usable domain, worded so the agent can pass it on to the user
+ */
+export interface DomainValidationError {
+  input: string;
+  code: DomainValidationCode;
+  message: string;
+  // The offending label, when the problem is in one
+  label?: string;
+}
+
+export interface ParsedDomain {
+  // Registrable domain in ASCII form: name + suffix ("example.co.uk", "xn--mnchen-3ya.de")
+  domain: string;
+  // Same, in Unicode for display
+  unicode: string;
+  // The part that gets registered ("example")
+  name: string;
+  // Public suffix with a leading dot (".co.uk", ".de")
+  suffix: string;
+  // Full hostname as given, subdomains included ("www.example.com")
+  hostname: string;
+}
+
+export type DomainParseResult =
+  | { ok: true; value: ParsedDomain }
+  | { ok: false; error: DomainValidationError };
+
+/**
+ * Turn whatever the user or model typed ("HTTPS://Example.com/pricing", " münchen.de ")
+ * into a registrable domain, or explain why it isn't one
+ */
+export function parseDomain(input: string): DomainParseResult {
+  const fail = (
+    code: DomainValidationCode,
+    message: string,
+    label?: string
+  ): DomainParseResult => ({
+    ok: false,
+    error: { input, code, message, label },
+  });
+
+  const hostname = toAsciiDomain(stripUrlParts(input.trim())).replace(/\.$/, "");
+  if (hostname.length === 0) {
+    return fail("empty", "No domain name given");
+  }
+  if (hostname.length > MAX_DOMAIN_LENGTH) {
+    return fail("too_long", `Domain names can be at most ${MAX_DOMAIN_LENGTH} characters`);
+  }
+
+  const labels = hostname.split(".");
+  if (labels.length < 2) {
+    return fail("missing_suffix", `"${input.trim()}" has no extension - add one like .com`);
+  }
+
+  for (const label of labels) {
+    const error = validateLabel(label);
+    if (error) {
+      return fail(error.code, error.message, label);
+    }
+  }
+
+  const scriptError = checkIdnScripts(hostname);
+  if (scriptError) {
+    return fail("idn_script", scriptError);
+  }
+
+  const suffix = getPublicSuffix(hostname);
+  const suffixLabels = suffix.split(".").length;
+  if (labels.length <= suffixLabels) {
+    return fail(
+      "suffix_only",
+      `".${toUnicodeDomain(suffix)}" is an extension on its own - add a name in front of it`
+    );
+  }
+  const name = labels[labels.length - suffixLabels - 1];
+  const domain = `${name}.${suffix}`;
+
+  return {
+    ok: true,
+    value: {
+      domain,
+      unicode: toUnicodeDomain(domain),
+      name,
+      suffix: `.${suffix}`,
+      hostname,
+    },
+  };
+}
+
+/**
+ * Parse a batch, keeping the valid domains (deduplicated, in order) apart from the errors
+ */
+export function parseDomains(inputs: string[]): {
+  domains: ParsedDomain[];
+  invalid: DomainValidationError[];
+} {
+  const domains = new Map<string, ParsedDomain>();
+  const invalid: DomainValidationError[] = [];
+
+  for (const input of inputs) {
+    const result = parseDomain(input);
+    if (!result.ok) {
+      invalid.push(result.error);
+    } else if (!domains.has(result.value.domain)) {
+      domains.set(result.value.domain, result.value);
+    }
+  }
+  return { domains: [...domains.values()], invalid };
+}
+
+// Drop scheme, credentials, port, path, query and fragment: keep only the host
+function stripUrlParts(input: string): string {
+  return input
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/^.*@/, "")
+    .replace(/:\d*$/, "");
+}
+
+function validateLabel(label: string): { code: DomainValidationCode; message: string } | undefined {
+  if (label.length === 0) {
+    return { code: "empty_label", message: 'Domain names can\'t contain empty parts ("..")' };
+  }
+  if (label.length > MAX_LABEL_LENGTH) {
+    return {
+      code: "label_too_long",
+      message: `Each part of a domain can be at most ${MAX_LABEL_LENGTH} characters`,
+    };
+  }
+  if (!/^[a-z0-9-]+$/.test(label)) {
+    return {
+      code: "invalid_characters",
+      message: `"${toUnicodeDomain(label)}" can only use letters, digits and hyphens`,
+    };
+  }
+  if (label.startsWith("-") || label.endsWith("-")) {
+    return { code: "hyphen_position", message: "Domain names can't start or end with a hyphen" };
+  }
+  // "ab--" is reserved for encodings like punycode's "xn--"
+  if (label.slice(2, 4) === "--" && !label.startsWith("xn--")) {
+    return {
+      code: "reserved_hyphens",
+      message: "Hyphens can't be the 3rd and 4th characters (reserved for encoded names)",
+    };
+  }
+  if (label.startsWith("xn--") && decodeAceLabel(label) === null) {
+    return {
+      code: "invalid_encoding",
+      message: `"${label}" isn't a valid encoded (xn--) international name`,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,196 @@
+/**
+ * Internationalized domain names: Unicode <-> ASCII ("xn--") conversion and the
+ * per-TLD script rules registries apply to IDN labels. DomainName.tsx imports it to display
+ * stored ASCII names, so it only depends on ./punycode.
+ */
+
+import { decodeLabel, encodeLabel } from "./punycode";
+
+const ACE_PREFIX = "xn--";
+
+// Ideographic and fullwidth full stops count as dots (IDNA2008 mapping)
+const LABEL_SEPARATORS = /[.。．｡]/;
+const NON_ASCII = /[^\p{ASCII}]/u;
+const CONTROL = /\p{Cc}/u;
+// What an IDN label may hold: letters, combining marks, digits and hyphens (no symbols,
+// emoji or control characters)
+const LABEL_CHAR = /[\p{L}\p{M}\p{N}-]/u;
+
+export type IdnScript =
+  | "Latin"
+  | "Greek"
+  | "Cyrillic"
+  | "Arabic"
+  | "Hebrew"
+  | "Han"
+  | "Hiragana"
+  | "Katakana"
+  | "Hangul"
+  | "Thai"
+  | "Devanagari";
+
+const SCRIPT_PATTERNS: Record<IdnScript, RegExp> = {
+  Latin: /\p{Script=Latin}/u,
+  Greek: /\p{Script=Greek}/u,
+  Cyrillic: /\p{Script=Cyrillic}/u,
+  Arabic: /\p{Script=Arabic}/u,
+  Hebrew: /\p{Script=Hebrew}/u,
+  Han: /\p{Script=Han}/u,
+  Hiragana: /\p{Script=Hiragana}/u,
+  Katakana: /\p{Script=Katakana}/u,
+  Hangul: /\p{Script=Hangul}/u,
+  Thai: /\p{Script=Thai}/u,
+  Devanagari: /\p{Script=Devanagari}/u,
+};
+
+/**
+ * Scripts each registry accepts in IDN labels; "ascii" = no IDN registrations at all.
+ * TLDs not listed (most gTLDs) take any supported script, one per label.
+ */
+const TLD_SCRIPT_RULES: Record<string, IdnScript[] | "ascii"> = {
+  de: ["Latin"],
+  at: ["Latin"],
+  ch: ["Latin"],
+  fr: ["Latin"],
+  es: ["Latin"],
+  se: ["Latin"],
+  dk: ["Latin"],
+  no: ["Latin"],
+  fi: ["Latin"],
+  pl: ["Latin"],
+  eu: ["Latin", "Greek", "Cyrillic"],
+  gr: ["Greek"],
+  ru: ["Cyrillic"],
+  "xn--p1ai": ["Cyrillic"], // .рф
+  jp: ["Han", "Hiragana", "Katakana", "Latin"],
+  cn: ["Han"],
+  kr: ["Hangul", "Han"],
+  th: ["Thai"],
+  in: ["Devanagari", "Latin"],
+  io: "ascii",
+  co: "ascii",
+  ai: "ascii",
+  uk: "ascii",
+  us: "ascii",
+};
+
+// Scripts that are written together, so one label may mix them
+const SCRIPT_COMBINATIONS: IdnScript[][] = [
+  ["Han", "Hiragana", "Katakana", "Latin"],
+  ["Hangul", "Han"],
+];
+
+export function isIdn(domain: string): boolean {
+  return (
+    domain.split(LABEL_SEPARATORS).some((label) => label.startsWith(ACE_PREFIX)) ||
+    NON_ASCII.test(domain)
+  );
+}
+
+/**
+ * Unicode form -> the ASCII form registries and DNS use ("münchen.de" -> "xn--mnchen-3ya.de")
+ */
+export function toAsciiDomain(domain: string): string {
+  return domain
+    .normalize("NFC")
+    .toLowerCase()
+    .split(LABEL_SEPARATORS)
+    .map((label) => (NON_ASCII.test(label) ? ACE_PREFIX + encodeLabel(label) : label))
+    .join(".");
+}
+
+/**
+ * ASCII form -> Unicode for display. Labels that don't decode are left as they are.
+ */
+export function toUnicodeDomain(domain: string): string {
+  return domain
+    .split(".")
+    .map((label) => decodeAceLabel(label) ?? label)
+    .join(".");
+}
+
+/**
+ * Unicode form of an "xn--" label, or null unless it's one toAsciiDomain could have produced:
+ * it decodes to non-ASCII text (lowercase, NFC, no control characters) that encodes back to
+ * the same label
+ */
+export function decodeAceLabel(label: string): string | null {
+  const ascii = label.toLowerCase();
+  if (!ascii.startsWith(ACE_PREFIX)) {
+    return null;
+  }
+  let decoded: string;
+  try {
+    decoded = decodeLabel(ascii.slice(ACE_PREFIX.length));
+  } catch {
+    return null;
+  }
+  const canonical =
+    NON_ASCII.test(decoded) &&
+    !CONTROL.test(decoded) &&
+    decoded === decoded.normalize("NFC").toLowerCase() &&
+    ACE_PREFIX + encodeLabel(decoded) === ascii;
+  return canonical ? decoded : null;
+}
+
+// Scripts used by a label's letters; digits, hyphens and combining marks don't count.
+// Empty when any character is outside the supported scripts or isn't allowed in a label.
+export function labelScripts(label: string): IdnScript[] {
+  const scripts = new Set<IdnScript>();
+  for (const char of label) {
+    if (!LABEL_CHAR.test(char)) {
+      return [];
+    }
+    if (/[\p{Script=Common}\p{Script=Inherited}]/u.test(char)) {
+      continue;
+    }
+    const script = (Object.keys(SCRIPT_PATTERNS) as IdnScript[]).find((name) =>
+      SCRIPT_PATTERNS[name].test(char)
+    );
+    if (!script) {
+      return [];
+    }
+    scripts.add(script);
+  }
+  return [...scripts];
+}
+
+/**
+ * Check a domain's labels against its TLD's IDN script rules.
+ * Returns a reason the registry would refuse it, or null when it's acceptable.
+ */
+export function checkIdnScripts(domain: string): string | null {
+  const labels = toUnicodeDomain(toAsciiDomain(domain)).split(".");
+  const tldUnicode = labels[labels.length - 1] ?? "";
+  const tld = toAsciiDomain(tldUnicode);
+  const rule = TLD_SCRIPT_RULES[tld];
+
+  for (const label of labels.slice(0, -1)) {
+    if (!NON_ASCII.test(label)) {
+      continue;
+    }
+    if (rule === "ascii") {
+      return `.${tldUnicode} doesn't accept internationalized names`;
+    }
+
+    const scripts = labelScripts(label);
+    if (scripts.length === 0) {
+      return `"${label}" uses characters no registry accepts`;
+    }
+
+    const disallowed = rule ? scripts.filter((script) => !rule.includes(script)) : [];
+    if (disallowed.length > 0) {
+      return `.${tldUnicode} doesn't accept ${disallowed.join("/")} characters`;
+    }
+
+    const mixes = scripts.length > 1;
+    const allowedMix = SCRIPT_COMBINATIONS.some((combination) =>
+      scripts.every((script) => combination.includes(script))
+    );
+    if (mixes && !allowedMix) {
+      return `"${label}" mixes ${scripts.join(" and ")} characters`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,46 @@
+import { convertCurrency } from "./currency";
+
+/**
+ * Registrar price list for one domain, all amounts in `currency`
+ */
+export interface DomainPricing {
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  // First year of a new registration
+  registration?: number;
+  // Each year after the first
+  renewal?: number;
+  // Moving an existing registration in (usually includes a year)
+  transfer?: number;
+}
+
+/**
+ * What holding the domain for `years` costs: first year plus renewals.
+ * Falls back to the registration price when no renewal price is known.
+ */
+export function multiYearCost(pricing: DomainPricing, years: number): number | undefined {
+  if (pricing.registration === undefined) {
+    return undefined;
+  }
+  const renewal = pricing.renewal ?? pricing.registration;
+  return pricing.registration + renewal * Math.max(0, years - 1);
+}
+
+/**
+ * Re-express a price list in another currency (undefined if either currency is unknown)
+ */
+export function convertPricing(pricing: DomainPricing, to: string): DomainPricing | undefined {
+  const convert = (amount: number | undefined): number | undefined =>
+    amount === undefined ? undefined : convertCurrency(amount, pricing.currency, to);
+
+  if (convertCurrency(0, pricing.currency, to) === undefined) {
+    return undefined;
+  }
+
+  return {
+    currency: to.toUpperCase(),
+    registration: convert(pricing.registration),
+    renewal: convert(pricing.renewal),
+    transfer: convert(pricing.transfer),
+  };
+}
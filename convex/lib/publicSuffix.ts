@@ -0,0 +1,58 @@
+/**
+ * Public Suffix List lookups: where the registrable part of a domain starts
+ * ("example.co.uk" registers "example" under ".co.uk", not "co" under ".uk").
+ * Shared by Convex functions and the frontend - keep it free of runtime imports.
+ *
+ * The bundled list is the ICANN section only, in ASCII form; refresh it with
+ * `npm run update:psl`. It is ~125 KB, so the frontend only pulls it in where a page
+ * validates domains itself.
+ */
+
+import publicSuffixList from "./data/public-suffix-list.json";
+
+let rules: Set<string> | undefined;
+
+function getRules(): Set<string> {
+  rules ??= new Set(publicSuffixList.rules);
+  return rules;
+}
+
+/**
+ * Public suffix of an ASCII hostname, without the leading dot ("co.uk", "com").
+ * Follows the PSL algorithm: the longest matching rule wins, "!" exceptions beat
+ * wildcards, and a TLD that isn't listed counts as a suffix of its own.
+ */
+export function getPublicSuffix(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, "").split(".");
+  const list = getRules();
+
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    const parent = labels.slice(i + 1).join(".");
+    if (list.has(`!${candidate}`)) {
+      return parent;
+    }
+    if (list.has(candidate) || (parent.length > 0 && list.has(`*.${parent}`))) {
+      return candidate;
+    }
+  }
+  return labels[labels.length - 1];
+}
+
+/**
+ * Whether `suffix` (with or without a leading dot, ASCII) is a public suffix in its own right,
+ * i.e. names can be registered directly under it
+ */
+export function isPublicSuffix(suffix: string): boolean {
+  const normalized = suffix.toLowerCase().replace(/^\./, "").replace(/\.$/, "");
+  return (
+    normalized.length > 0 && getPublicSuffix(normalized) === normalized && isListed(normalized)
+  );
+}
+
+// The default "*" rule makes any TLD a suffix; only explicitly listed ones count here
+function isListed(suffix: string): boolean {
+  const list = getRules();
+  const parent = suffix.slice(suffix.indexOf(".") + 1);
+  return list.has(suffix) || (suffix.includes(".") && list.has(`*.${parent}`));
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { decodeAceLabel, toAsciiDomain, toUnicodeDomain } from "./idn";
+import { decodeLabel, encodeLabel } from "./punycode";
+
+// RFC 3492 section 7.1 samples, plus labels registries see every day
+const SAMPLES: [string, string][] = [
+  ["他们为什么不说中文", "ihqwcrb4cv8a8dqg056pqjye"],
+  ["ليهمابتكلموشعربي؟", "egbpdaj6bu4bxfgehfvwxn"],
+  ["3年B組金八先生", "3B-ww4c5e180e575a65lsy2b"],
+  ["münchen", "mnchen-3ya"],
+  ["bücher", "bcher-kva"],
+  ["правда", "80aafi6cg"],
+  ["ελληνικά", "hxargifdar"],
+  ["日本語", "wgv71a119e"],
+];
+
+describe("encodeLabel / decodeLabel", () => {
+  it.each(SAMPLES)("encodes %s as %s and back", (unicode, encoded) => {
+    expect(encodeLabel(unicode)).toBe(encoded);
+    expect(decodeLabel(encoded)).toBe(unicode);
+  });
+
+  it("throws on digits outside the punycode alphabet", () => {
+    expect(() => decodeLabel("mnchen-3y!")).toThrow();
+  });
+});
+
+describe("decodeAceLabel", () => {
+  it("decodes labels toAsciiDomain would produce", () => {
+    expect(decodeAceLabel("xn--mnchen-3ya")).toBe("münchen");
+    expect(decodeAceLabel("XN--MNCHEN-3YA")).toBe("münchen");
+  });
+
+  it.each([
+    ["xn--zz", "doesn't decode"],
+    ["xn--abc", "decodes to a control character"],
+    ["xn--mnchen-", "decodes to ASCII only"],
+    ["xn--mnchen-psa", "decodes to uppercase"],
+    ["xn--munchen-gie", "decodes to a decomposed ü"],
+    ["mnchen-3ya", "has no xn-- prefix"],
+  ])("rejects %s (%s)", (label) => {
+    expect(decodeAceLabel(label)).toBeNull();
+  });
+});
+
+describe("toAsciiDomain / toUnicodeDomain", () => {
+  it("round-trips every label", () => {
+    expect(toAsciiDomain("Bücher.Example")).toBe("xn--bcher-kva.example");
+    expect(toUnicodeDomain("xn--bcher-kva.example")).toBe("bücher.example");
+    expect(toAsciiDomain("日本語。jp")).toBe("xn--wgv71a119e.jp");
+  });
+
+  it("leaves labels that aren't valid encodings as they are", () => {
+    expect(toUnicodeDomain("xn--zz.com")).toBe("xn--zz.com");
+  });
+});
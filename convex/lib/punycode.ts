@@ -0,0 +1,124 @@
+/**
+ * Punycode (RFC 3492) for single domain labels, without the "xn--" prefix.
+ * Used through ./idn, which only accepts a decoded label that encodes back to its input.
+ */
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const DELIMITER = "-";
+
+export function encodeLabel(label: string): string {
+  const codePoints = Array.from(label, (char) => char.codePointAt(0) ?? 0);
+  const basic = codePoints.filter((cp) => cp < 0x80);
+  let output = String.fromCodePoint(...basic);
+  let handled = basic.length;
+  if (handled > 0) {
+    output += DELIMITER;
+  }
+
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+
+  while (handled < codePoints.length) {
+    // Smallest code point not handled yet
+    const next = Math.min(...codePoints.filter((cp) => cp >= n));
+    delta += (next - n) * (handled + 1);
+    n = next;
+
+    for (const cp of codePoints) {
+      if (cp < n) {
+        delta++;
+      }
+      if (cp !== n) {
+        continue;
+      }
+
+      let q = delta;
+      for (let k = BASE; ; k += BASE) {
+        const t = threshold(k, bias);
+        if (q < t) break;
+        output += digitToChar(t + ((q - t) % (BASE - t)));
+        q = Math.floor((q - t) / (BASE - t));
+      }
+      output += digitToChar(q);
+      bias = adapt(delta, handled + 1, handled === basic.length);
+      delta = 0;
+      handled++;
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output;
+}
+
+export function decodeLabel(encoded: string): string {
+  const delimiterAt = encoded.lastIndexOf(DELIMITER);
+  const output =
+    delimiterAt > 0 ? Array.from(encoded.slice(0, delimiterAt), (c) => c.codePointAt(0) ?? 0) : [];
+
+  let n = INITIAL_N;
+  let i = 0;
+  let bias = INITIAL_BIAS;
+  let position = delimiterAt > 0 ? delimiterAt + 1 : 0;
+
+  while (position < encoded.length) {
+    const oldI = i;
+    let w = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (position >= encoded.length) {
+        throw new Error(`Invalid punycode: ${encoded}`);
+      }
+      const digit = charToDigit(encoded.charCodeAt(position++));
+      i += digit * w;
+      const t = threshold(k, bias);
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+
+    bias = adapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i, 0, n);
+    i++;
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+function threshold(k: number, bias: number): number {
+  if (k <= bias) return T_MIN;
+  if (k >= bias + T_MAX) return T_MAX;
+  return k - bias;
+}
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  let d = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  d += Math.floor(d / numPoints);
+
+  let k = 0;
+  while (d > ((BASE - T_MIN) * T_MAX) >> 1) {
+    d = Math.floor(d / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * d) / (d + SKEW));
+}
+
+// 0-25 -> a-z, 26-35 -> 0-9
+function digitToChar(digit: number): string {
+  return String.fromCharCode(digit < 26 ? digit + 97 : digit + 22);
+}
+
+function charToDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  throw new Error(`Invalid punycode digit: ${String.fromCharCode(code)}`);
+}
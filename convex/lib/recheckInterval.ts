@@ -0,0 +1,17 @@
+/**
+ * How often saved domains are re-verified in the background.
+ * The saved page offers the same intervals users.updateRecheckInterval accepts.
+ */
+
+export const DEFAULT_RECHECK_INTERVAL_DAYS = 7;
+
+// Choices offered on the saved page
+export const RECHECK_INTERVAL_OPTIONS_DAYS = [1, 3, 7, 14, 30];
+
+export function isSupportedRecheckInterval(days: number): boolean {
+  return RECHECK_INTERVAL_OPTIONS_DAYS.includes(days);
+}
+
+export function recheckIntervalMs(days: number | undefined): number {
+  return (days ?? DEFAULT_RECHECK_INTERVAL_DAYS) * 24 * 60 * 60 * 1000;
+}
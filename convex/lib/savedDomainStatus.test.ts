@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { savedStatusUpdate } from "./savedDomainStatus";
+
+const NOW = 1_700_000_000_000;
+
+describe("savedStatusUpdate", () => {
+  it("leaves a saved domain alone when the result is simulated", () => {
+    const saved = { status: "taken" as const, available: false };
+    expect(savedStatusUpdate(saved, { status: "available", simulated: true }, NOW)).toBeNull();
+  });
+
+  it("remembers the old status when a real answer differs", () => {
+    expect(
+      savedStatusUpdate({ status: "taken", available: false }, { status: "available" }, NOW)
+    ).toEqual({
+      status: "available",
+      available: true,
+      previousStatus: "taken",
+      statusChangedAt: NOW,
+    });
+  });
+
+  it("drops the badge when the status flips back", () => {
+    const saved = {
+      status: "available" as const,
+      available: true,
+      previousStatus: "taken" as const,
+      statusChangedAt: NOW - 1000,
+    };
+    expect(savedStatusUpdate(saved, { status: "taken" }, NOW)).toEqual({
+      status: "taken",
+      available: false,
+      previousStatus: undefined,
+      statusChangedAt: undefined,
+    });
+  });
+
+  it("replaces a simulated saved status without a badge", () => {
+    const saved = { status: "available" as const, available: true, simulated: true };
+    expect(savedStatusUpdate(saved, { status: "taken" }, NOW)).toEqual({
+      status: "taken",
+      available: false,
+    });
+  });
+
+  it.each([
+    ["taken", "unknown"],
+    ["unknown", "available"],
+    ["taken", "taken"],
+  ] as const)("doesn't badge %s -> %s", (before, after) => {
+    expect(savedStatusUpdate({ status: before, available: false }, { status: after }, NOW)).toEqual(
+      {
+        status: after,
+        available: after === "available",
+      }
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * How a re-check updates a saved domain's status, and when /saved badges it as changed.
+ * Simulated (mock) answers say nothing about the name, so they never touch the saved status
+ * and a change is only reported between two real answers.
+ */
+
+import type { AvailabilityStatus } from "../registrars/types";
+
+export interface SavedDomainStatus {
+  status?: AvailabilityStatus;
+  available: boolean;
+  // The stored status came from the mock provider (the domain was saved from a simulated result)
+  simulated?: boolean;
+  // Status the user last saw before it changed; set while the "Changed" badge shows
+  previousStatus?: AvailabilityStatus;
+  statusChangedAt?: number;
+}
+
+export interface StatusCheck {
+  status: AvailabilityStatus;
+  simulated?: boolean;
+}
+
+/**
+ * Status fields to patch onto a saved domain for a re-check result, or null when the result
+ * is simulated and the saved answer should stand
+ */
+export function savedStatusUpdate(
+  saved: SavedDomainStatus,
+  check: StatusCheck,
+  now: number
+): Partial<SavedDomainStatus> | null {
+  if (check.simulated) {
+    return null;
+  }
+
+  const update = { status: check.status, available: check.status === "available" };
+  const oldStatus = saved.status ?? (saved.available ? "available" : "taken");
+  // "unknown" only means nobody answered and a simulated status was made up - neither is
+  // worth a badge, so a real answer just replaces them
+  const realOldStatus = oldStatus !== "unknown" && !saved.simulated;
+  if (check.status === oldStatus || check.status === "unknown" || !realOldStatus) {
+    return update;
+  }
+
+  // Keep the status the user last saw if it flips again before they look,
+  // and drop the badge if it flipped back to it
+  if (check.status === saved.previousStatus) {
+    return { ...update, previousStatus: undefined, statusChangedAt: undefined };
+  }
+  return { ...update, previousStatus: saved.previousStatus ?? oldStatus, statusChangedAt: now };
+}
@@ -0,0 +1,112 @@
+/**
+ * TLD catalog entries: which suffixes DomainBot suggests, what they cost and who can register them.
+ * The TLD picker imports the entry type and labels; the catalog rows themselves live in Convex.
+ */
+
+// Typical first-year price: budget under $10, standard up to $30, premium above
+export type TldPriceBand = "budget" | "standard" | "premium";
+
+// hsts_preload: browsers only load the site over HTTPS (.dev, .app)
+// local_presence: the registrant needs an address or business in the country/region
+export type TldRestriction = "hsts_preload" | "local_presence";
+
+export interface TldCatalogEntry {
+  // Public suffix with a leading dot, ASCII form (".com", ".co.uk")
+  tld: string;
+  priceBand: TldPriceBand;
+  restrictions: TldRestriction[];
+  // Details for the user, e.g. which presence rule applies
+  restrictionNote?: string;
+  categories: string[];
+  enabled: boolean;
+  // Used by generateDomainNames when neither the user nor the model picks TLDs
+  isDefault: boolean;
+  // Display and prompt order, lowest first
+  rank: number;
+}
+
+export const PRICE_BAND_LABELS: Record<TldPriceBand, string> = {
+  budget: "$",
+  standard: "$$",
+  premium: "$$$",
+};
+
+export const RESTRICTION_LABELS: Record<TldRestriction, string> = {
+  hsts_preload: "HTTPS only",
+  local_presence: "Local presence required",
+};
+
+/**
+ * Seed for the tldCatalog table, also the fallback while it hasn't been seeded
+ */
+export const DEFAULT_TLD_CATALOG: TldCatalogEntry[] = [
+  entry(".com", "standard", ["general", "business"], { isDefault: true }),
+  entry(".io", "premium", ["tech", "startup"], { isDefault: true }),
+  entry(".co", "standard", ["startup", "business"], { isDefault: true }),
+  entry(".dev", "standard", ["tech"], {
+    isDefault: true,
+    restrictions: ["hsts_preload"],
+    restrictionNote: "Sites must be served over HTTPS",
+  }),
+  entry(".app", "standard", ["tech", "mobile"], {
+    isDefault: true,
+    restrictions: ["hsts_preload"],
+    restrictionNote: "Sites must be served over HTTPS",
+  }),
+  entry(".ai", "premium", ["ai", "tech"], { isDefault: true }),
+  entry(".xyz", "budget", ["general", "creative"]),
+  entry(".me", "budget", ["personal"]),
+  entry(".net", "standard", ["general", "tech"]),
+  entry(".org", "standard", ["nonprofit", "community"]),
+  entry(".tech", "premium", ["tech"]),
+  entry(".studio", "standard", ["creative"]),
+  entry(".design", "premium", ["creative"]),
+  entry(".co.uk", "budget", ["local"]),
+  entry(".com.au", "standard", ["local"], {
+    restrictions: ["local_presence"],
+    restrictionNote: "Needs an Australian business number or trademark",
+  }),
+  entry(".de", "budget", ["local"], {
+    restrictions: ["local_presence"],
+    restrictionNote: "Needs a German address or administrative contact",
+  }),
+  entry(".ca", "standard", ["local"], {
+    restrictions: ["local_presence"],
+    restrictionNote: "Needs Canadian presence (citizen, resident or business)",
+  }),
+  entry(".us", "budget", ["local"], {
+    restrictions: ["local_presence"],
+    restrictionNote: "Needs a US nexus (citizen, resident or business)",
+  }),
+  entry(".eu", "budget", ["local"], {
+    restrictions: ["local_presence"],
+    restrictionNote: "Needs an EU/EEA citizen, resident or business",
+  }),
+].map((tld, index) => ({ ...tld, rank: index }));
+
+/**
+ * Suffixes the generator falls back to: enabled defaults in rank order
+ */
+export function defaultGenerationTlds(catalog: TldCatalogEntry[]): string[] {
+  return catalog
+    .filter((tld) => tld.enabled && tld.isDefault)
+    .sort((a, b) => a.rank - b.rank)
+    .map((tld) => tld.tld);
+}
+
+function entry(
+  tld: string,
+  priceBand: TldPriceBand,
+  categories: string[],
+  options: Partial<Pick<TldCatalogEntry, "isDefault" | "restrictions" | "restrictionNote">> = {}
+): Omit<TldCatalogEntry, "rank"> {
+  return {
+    tld,
+    priceBand,
+    categories,
+    restrictions: options.restrictions ?? [],
+    restrictionNote: options.restrictionNote,
+    enabled: true,
+    isDefault: options.isDefault ?? false,
+  };
+}
@@ -0,0 +1,67 @@
+import { v } from "convex/values";
+import { query, mutation, internalQuery } from "./_generated/server";
+import { components } from "./_generated/api";
+import { MOCK_SCENARIOS } from "./registrars/scenarios";
+
+// Scenario fixtures the mock provider can answer from
+export const list = query({
+  args: {},
+  handler: async () => {
+    return Object.entries(MOCK_SCENARIOS).map(([name, scenario]) => ({
+      name,
+      description: scenario.description,
+    }));
+  },
+});
+
+/**
+ * Pin a thread to a mock scenario (or clear it with no scenario) so its checks
+ * reproduce the same outcomes regardless of the deployment's MOCK_SCENARIO
+ */
+export const setForThread = mutation({
+  args: {
+    threadId: v.string(),
+    userId: v.id("users"),
+    scenario: v.optional(v.string()),
+  },
+  handler: async (ctx, { threadId, userId, scenario }) => {
+    if (scenario && !(scenario in MOCK_SCENARIOS)) {
+      throw new Error(`Unknown mock scenario: ${scenario}`);
+    }
+
+    // Only the thread's owner can change how its checks are answered
+    const thread = await ctx.runQuery(components.agent.threads.getThread, { threadId });
+    if (!thread || thread.userId !== userId) {
+      throw new Error("Thread not found");
+    }
+
+    const existing = await ctx.db
+      .query("threadMockScenarios")
+      .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+      .first();
+
+    if (!scenario) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+      return;
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { scenario, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("threadMockScenarios", { threadId, scenario, updatedAt: Date.now() });
+    }
+  },
+});
+
+export const getForThread = internalQuery({
+  args: { threadId: v.string() },
+  handler: async (ctx, { threadId }): Promise<string | undefined> => {
+    const pinned = await ctx.db
+      .query("threadMockScenarios")
+      .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+      .first();
+    return pinned?.scenario;
+  },
+});
@@ -0,0 +1,42 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+
+// How many notifications the bell shows
+const RECENT_LIMIT = 20;
+
+// Most recent notifications for a user, newest first
+export const listByUser = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(RECENT_LIMIT);
+  },
+});
+
+export const unreadCount = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) => q.eq("userId", userId).eq("read", false))
+      .collect();
+    return unread.length;
+  },
+});
+
+export const markAllRead = mutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) => q.eq("userId", userId).eq("read", false))
+      .collect();
+
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { read: true });
+    }
+  },
+});
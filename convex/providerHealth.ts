@@ -0,0 +1,112 @@
+import { v } from "convex/values";
+import { query, internalMutation } from "./_generated/server";
+
+// Consecutive failed calls that open a provider's circuit
+const FAILURE_THRESHOLD = 5;
+
+// How long an open circuit skips the provider before letting a trial call through
+const OPEN_COOLDOWN_MS = 60 * 1000;
+
+// A half-open trial that never reported back (action crashed) stops blocking after this
+const TRIAL_TIMEOUT_MS = 30 * 1000;
+
+// Weight of the newest call in successRate / latencyMs
+const EWMA_ALPHA = 0.1;
+
+// Current health of every provider that has been called
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("providerHealth").collect();
+  },
+});
+
+/**
+ * Whether a provider may be called right now. Closed circuits always pass; an open one
+ * passes a single trial call once its cooldown is over (moving to half_open).
+ */
+export const allow = internalMutation({
+  args: { provider: v.string() },
+  handler: async (ctx, { provider }): Promise<boolean> => {
+    const now = Date.now();
+    const health = await ctx.db
+      .query("providerHealth")
+      .withIndex("by_provider", (q) => q.eq("provider", provider))
+      .first();
+
+    if (!health || health.circuit === "closed") {
+      return true;
+    }
+
+    const since = now - (health.circuitChangedAt ?? 0);
+    const cooldown = health.circuit === "open" ? OPEN_COOLDOWN_MS : TRIAL_TIMEOUT_MS;
+    if (since < cooldown) {
+      return false;
+    }
+
+    await ctx.db.patch(health._id, { circuit: "half_open", circuitChangedAt: now, updatedAt: now });
+    return true;
+  },
+});
+
+/**
+ * Fold one call's outcome into the provider's stats and move its circuit:
+ * a success closes it, FAILURE_THRESHOLD failures in a row (or a failed trial) open it
+ */
+export const record = internalMutation({
+  args: {
+    provider: v.string(),
+    ok: v.boolean(),
+    latencyMs: v.number(),
+    errorCode: v.optional(v.string()),
+    errorMessage: v.optional(v.string()),
+  },
+  handler: async (ctx, { provider, ok, latencyMs, errorCode, errorMessage }) => {
+    const now = Date.now();
+    const health = await ctx.db
+      .query("providerHealth")
+      .withIndex("by_provider", (q) => q.eq("provider", provider))
+      .first();
+
+    if (!health) {
+      await ctx.db.insert("providerHealth", {
+        provider,
+        calls: 1,
+        failures: ok ? 0 : 1,
+        successRate: ok ? 1 : 0,
+        latencyMs,
+        errorCodes: errorCode ? { [errorCode]: 1 } : {},
+        lastError: ok ? undefined : errorMessage,
+        lastErrorAt: ok ? undefined : now,
+        consecutiveFailures: ok ? 0 : 1,
+        circuit: "closed",
+        updatedAt: now,
+      });
+      return;
+    }
+
+    const consecutiveFailures = ok ? 0 : health.consecutiveFailures + 1;
+    const shouldOpen =
+      !ok && (health.circuit === "half_open" || consecutiveFailures >= FAILURE_THRESHOLD);
+    const circuit = ok ? "closed" : shouldOpen ? "open" : health.circuit;
+
+    if (circuit !== health.circuit) {
+      console.log(`Circuit for ${provider} is now ${circuit}`);
+    }
+
+    await ctx.db.patch(health._id, {
+      calls: health.calls + 1,
+      failures: health.failures + (ok ? 0 : 1),
+      successRate: health.successRate + EWMA_ALPHA * ((ok ? 1 : 0) - health.successRate),
+      latencyMs: health.latencyMs + EWMA_ALPHA * (latencyMs - health.latencyMs),
+      errorCodes: errorCode
+        ? { ...health.errorCodes, [errorCode]: (health.errorCodes[errorCode] ?? 0) + 1 }
+        : health.errorCodes,
+      ...(!ok && { lastError: errorMessage, lastErrorAt: now }),
+      consecutiveFailures,
+      circuit,
+      circuitChangedAt: circuit !== health.circuit ? now : health.circuitChangedAt,
+      updatedAt: now,
+    });
+  },
+});
@@ -0,0 +1,70 @@
+import { v } from "convex/values";
+import { query, internalMutation } from "./_generated/server";
+import type { RateLimitGrant } from "./registrars/types";
+
+/**
+ * Take `count` tokens from a provider's bucket. When the bucket is short, the tokens
+ * are reserved anyway (the balance goes negative) and the caller is told how long to
+ * wait, so concurrent actions queue up behind each other instead of bursting. Requests
+ * that would wait longer than maxWaitMs are refused without reserving anything.
+ */
+export const acquire = internalMutation({
+  args: {
+    provider: v.string(),
+    count: v.number(),
+    capacity: v.number(),
+    refillPerSecond: v.number(),
+    maxWaitMs: v.number(),
+  },
+  handler: async (ctx, args): Promise<RateLimitGrant> => {
+    const now = Date.now();
+    const bucket = await ctx.db
+      .query("rateLimitBuckets")
+      .withIndex("by_provider", (q) => q.eq("provider", args.provider))
+      .first();
+
+    const elapsedSeconds = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    const available = bucket
+      ? Math.min(args.capacity, bucket.tokens + elapsedSeconds * args.refillPerSecond)
+      : args.capacity;
+
+    const deficit = args.count - available;
+    const waitMs = deficit > 0 ? Math.ceil((deficit / args.refillPerSecond) * 1000) : 0;
+    if (waitMs > args.maxWaitMs) {
+      return { granted: false, waitMs };
+    }
+
+    const update = {
+      tokens: available - args.count,
+      capacity: args.capacity,
+      refillPerSecond: args.refillPerSecond,
+      updatedAt: now,
+    };
+
+    if (bucket) {
+      await ctx.db.patch(bucket._id, update);
+    } else {
+      await ctx.db.insert("rateLimitBuckets", { provider: args.provider, ...update });
+    }
+
+    return { granted: true, waitMs };
+  },
+});
+
+// Current bucket levels (refilled to now) for each provider
+export const status = query({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const buckets = await ctx.db.query("rateLimitBuckets").collect();
+
+    return buckets.map((bucket) => ({
+      provider: bucket.provider,
+      capacity: bucket.capacity,
+      tokens: Math.min(
+        bucket.capacity,
+        bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.refillPerSecond
+      ),
+    }));
+  },
+});
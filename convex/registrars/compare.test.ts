@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { comparePrices } from "./compare";
+import type { DomainPricing, RegistrarProvider } from "./types";
+
+function fakeProvider(id: string, pricing: DomainPricing, simulated?: boolean): RegistrarProvider {
+  return {
+    id,
+    displayName: id,
+    capabilities: { availability: true, pricing: true, maxBatchSize: 1 },
+    supports: () => true,
+    check: () => Promise.resolve([]),
+    price: (domain) => Promise.resolve({ domain, provider: id, pricing, simulated }),
+  };
+}
+
+const providers = (comparison: { quotes: { provider: string }[] }): string[] =>
+  comparison.quotes.map((quote) => quote.provider);
+
+describe("comparePrices", () => {
+  it("ranks real quotes by total cost and never picks a simulated one", async () => {
+    const comparison = await comparePrices("example.com", {
+      chain: [
+        fakeProvider("pricey", { currency: "USD", registration: 20, renewal: 20 }),
+        fakeProvider("mock", { currency: "USD", registration: 1, renewal: 1 }, true),
+        fakeProvider("cheap", { currency: "USD", registration: 10, renewal: 12 }),
+      ],
+      years: 2,
+    });
+
+    expect(providers(comparison)).toEqual(["cheap", "pricey", "mock"]);
+    expect(comparison.cheapest).toMatchObject({ provider: "cheap", totalCost: 22 });
+  });
+
+  it("sorts quotes without a total last, in the order they came", async () => {
+    const comparison = await comparePrices("example.com", {
+      chain: [
+        fakeProvider("no-rate", { currency: "XYZ", registration: 5 }),
+        fakeProvider("priced", { currency: "USD", registration: 10 }),
+        fakeProvider("no-price", { currency: "USD" }),
+      ],
+    });
+
+    expect(providers(comparison)).toEqual(["priced", "no-rate", "no-price"]);
+    expect(comparison.quotes.map((quote) => quote.totalCost)).toEqual([
+      expect.any(Number),
+      undefined,
+      undefined,
+    ]);
+  });
+});
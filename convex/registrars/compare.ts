@@ -0,0 +1,111 @@
+import { DEFAULT_CURRENCY } from "../lib/currency";
+import { convertPricing, multiYearCost } from "../lib/pricing";
+import { classifyProviderError } from "./health";
+import { sleep } from "./http";
+import type { AcquireTokens } from "./index";
+import type {
+  ComparedQuote,
+  PriceComparison,
+  ProviderHealthHooks,
+  RegistrarProvider,
+} from "./types";
+
+// Long enough that a cheap first year with steep renewals doesn't win
+const DEFAULT_COMPARISON_YEARS = 3;
+
+interface ComparePricesOptions {
+  chain: RegistrarProvider[];
+  acquire?: AcquireTokens;
+  health?: ProviderHealthHooks;
+  currency?: string;
+  years?: number;
+}
+
+/**
+ * Ask every pricing-capable provider in the chain for its price on one domain and rank
+ * the real quotes by what the domain costs to hold for `years`, renewals included.
+ * Unlike availability checks this fans out to all providers instead of falling back.
+ */
+export async function comparePrices(
+  domain: string,
+  {
+    chain,
+    acquire,
+    health,
+    currency = DEFAULT_CURRENCY,
+    years = DEFAULT_COMPARISON_YEARS,
+  }: ComparePricesOptions
+): Promise<PriceComparison> {
+  const failures: PriceComparison["failures"] = [];
+  const providers = chain.filter(
+    (provider) => provider.capabilities.pricing && provider.supports(domain)
+  );
+
+  const quotes = await Promise.all(
+    providers.map(async (provider): Promise<ComparedQuote | null> => {
+      if (health && !(await health.allow(provider.id))) {
+        failures.push({ provider: provider.id, errorMessage: "Temporarily unavailable" });
+        return null;
+      }
+
+      const { rateLimit, priceRequests = 1 } = provider.capabilities;
+      if (acquire && rateLimit) {
+        const grant = await acquire(provider.id, priceRequests, rateLimit);
+        if (!grant.granted) {
+          failures.push({ provider: provider.id, errorMessage: "Rate limited" });
+          return null;
+        }
+        if (grant.waitMs > 0) {
+          await sleep(grant.waitMs);
+        }
+      }
+
+      const startedAt = Date.now();
+      try {
+        const quote = await provider.price(domain);
+        await health?.record(provider.id, { ok: true, latencyMs: Date.now() - startedAt });
+        if (!quote) {
+          failures.push({ provider: provider.id, errorMessage: "No price available" });
+          return null;
+        }
+
+        const converted = convertPricing(quote.pricing, currency);
+        return {
+          ...quote,
+          totalCost: converted ? multiYearCost(converted, years) : undefined,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await health?.record(provider.id, {
+          ok: false,
+          latencyMs: Date.now() - startedAt,
+          errorCode: classifyProviderError(errorMessage),
+          errorMessage,
+        });
+        failures.push({ provider: provider.id, errorMessage });
+        return null;
+      }
+    })
+  );
+
+  // Quotes we can't put a total on (unknown currency, no registration price) sort last.
+  // Simulated (mock) quotes are listed after the real ones and never count as cheapest.
+  const byTotal = (a: ComparedQuote, b: ComparedQuote): number => {
+    if (a.totalCost === undefined || b.totalCost === undefined) {
+      return Number(a.totalCost === undefined) - Number(b.totalCost === undefined);
+    }
+    return a.totalCost - b.totalCost;
+  };
+  const answered = quotes.filter((quote): quote is ComparedQuote => quote !== null);
+  const ranked = answered.filter((quote) => !quote.simulated).sort(byTotal);
+  const simulated = answered.filter((quote) => quote.simulated).sort(byTotal);
+
+  return {
+    domain,
+    currency: currency.toUpperCase(),
+    years,
+    quotes: [...ranked, ...simulated],
+    cheapest: ranked[0]?.totalCost !== undefined ? ranked[0] : undefined,
+    failures,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { type DnsResolver, prefilterWithDns } from "./dns";
+
+// In-memory zone data: NS and SOA answers per domain, anything else is NXDOMAIN
+function fakeResolver(zones: Record<string, { ns?: string[]; soa?: boolean }>): DnsResolver {
+  const notFound = (domain: string): Error =>
+    Object.assign(new Error(`queryNs ENOTFOUND ${domain}`), { code: "ENOTFOUND" });
+  return {
+    resolveNs: (domain) => {
+      const ns = zones[domain]?.ns;
+      return ns ? Promise.resolve(ns) : Promise.reject(notFound(domain));
+    },
+    resolveSoa: (domain) =>
+      zones[domain]?.soa
+        ? Promise.resolve({ nsname: `ns1.${domain}`, hostmaster: `hostmaster.${domain}` })
+        : Promise.reject(notFound(domain)),
+  };
+}
+
+describe("prefilterWithDns", () => {
+  it("marks delegated domains taken and leaves the rest to the registrars", async () => {
+    const resolver = fakeResolver({
+      "example.com": { ns: ["a.iana-servers.net", "b.iana-servers.net"] },
+      "soa-only.io": { ns: [], soa: true },
+      "parked.net": { ns: [] },
+    });
+
+    const result = await prefilterWithDns(
+      ["example.com", "soa-only.io", "parked.net", "domainbot-unregistered.dev"],
+      resolver
+    );
+
+    expect(result.taken).toEqual([
+      { domain: "example.com", status: "taken", premium: false, definitive: true, provider: "dns" },
+      { domain: "soa-only.io", status: "taken", premium: false, definitive: true, provider: "dns" },
+    ]);
+    expect(result.ambiguous).toEqual(["parked.net", "domainbot-unregistered.dev"]);
+  });
+
+  it("keeps domains ambiguous when lookups time out", async () => {
+    const timeout = (): Promise<never> =>
+      Promise.reject(Object.assign(new Error("queryNs ETIMEOUT"), { code: "ETIMEOUT" }));
+    const result = await prefilterWithDns(["slow.com"], {
+      resolveNs: timeout,
+      resolveSoa: timeout,
+    });
+
+    expect(result).toEqual({ taken: [], ambiguous: ["slow.com"] });
+  });
+});
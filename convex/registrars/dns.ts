@@ -0,0 +1,102 @@
+"use node";
+
+import { Resolver } from "node:dns/promises";
+import { parallelMap } from "./http";
+import type { DomainCheckResult } from "./types";
+
+const DNS_TIMEOUT_MS = 2000;
+const MAX_CONCURRENT_LOOKUPS = 10;
+
+/**
+ * The two lookups the pre-filter needs. Injectable so tests can point at a local DNS stub.
+ */
+export interface DnsResolver {
+  resolveNs(domain: string): Promise<string[]>;
+  resolveSoa(domain: string): Promise<unknown>;
+}
+
+export interface DnsPrefilterResult {
+  // Delegated domains - registered, no need to ask a registrar
+  taken: DomainCheckResult[];
+  // No delegation (or the lookup failed) - only a registrar/registry can say
+  ambiguous: string[];
+}
+
+/**
+ * Build a resolver, optionally pinned to specific servers (e.g. ["127.0.0.1:5353"])
+ */
+export function createDnsResolver(servers?: string[]): DnsResolver {
+  const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 1 });
+  if (servers && servers.length > 0) {
+    resolver.setServers(servers);
+  }
+  return resolver;
+}
+
+/**
+ * Resolver from DNS_PREFILTER / DNS_PREFILTER_SERVERS (null when the stage is disabled)
+ */
+export function createDnsResolverFromEnv(): DnsResolver | null {
+  if (process.env.DNS_PREFILTER === "false") {
+    return null;
+  }
+
+  const servers = process.env.DNS_PREFILTER_SERVERS?.split(",")
+    .map((server) => server.trim())
+    .filter((server) => server.length > 0);
+
+  return createDnsResolver(servers);
+}
+
+/**
+ * Cheap first pass: anything with NS or SOA records at the apex is delegated, so it's taken.
+ * NXDOMAIN doesn't prove availability (registered-but-undelegated names exist), so those
+ * and any lookup failures stay ambiguous for the real providers.
+ */
+export async function prefilterWithDns(
+  domains: string[],
+  resolver: DnsResolver
+): Promise<DnsPrefilterResult> {
+  const lookups = await parallelMap(
+    domains,
+    async (domain) => ({ domain, delegated: await isDelegated(domain, resolver) }),
+    MAX_CONCURRENT_LOOKUPS
+  );
+
+  const taken: DomainCheckResult[] = [];
+  const ambiguous: string[] = [];
+
+  for (const { domain, delegated } of lookups) {
+    if (delegated) {
+      taken.push({
+        domain,
+        status: "taken",
+        premium: false,
+        definitive: true,
+        provider: "dns",
+      });
+    } else {
+      ambiguous.push(domain);
+    }
+  }
+
+  return { taken, ambiguous };
+}
+
+async function isDelegated(domain: string, resolver: DnsResolver): Promise<boolean> {
+  try {
+    const nameservers = await resolver.resolveNs(domain);
+    if (nameservers.length > 0) {
+      return true;
+    }
+  } catch {
+    // ENOTFOUND / ENODATA / timeouts - fall through to SOA
+  }
+
+  try {
+    await resolver.resolveSoa(domain);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Registry status codes (RFC 5731 EPP). RDAP spells them as words ("pending delete"),
+ * WHOIS as camelCase followed by an ICANN link; both are normalized to the EPP form.
+ */
+export function normalizeEppStatus(status: string): string {
+  const words = status
+    .replace(/https?:\/\/\S+/g, "")
+    .trim()
+    .split(/[\s_-]+/)
+    .filter((word) => word.length > 0);
+
+  return words
+    .map((word, index) =>
+      index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+}
+
+// Past expiry and no longer renewable - the name drops within days
+export function isPendingDelete(statuses: string[] | undefined): boolean {
+  return statuses?.includes("pendingDelete") ?? false;
+}
+
+// Expired and in the registry's redemption grace period - the step before pendingDelete
+export function isInRedemption(statuses: string[] | undefined): boolean {
+  return statuses?.includes("redemptionPeriod") ?? false;
+}
@@ -0,0 +1,147 @@
+import { fetchWithRetry, parallelMap } from "./http";
+import { isPriceClassPremium } from "./premium";
+import type { DomainCheckResult, DomainPricing, PriceQuote, RegistrarProvider } from "./types";
+
+// GoDaddy API configuration
+const GODADDY_API_URL = "https://api.godaddy.com/v1/domains/available";
+
+// GoDaddy only checks one domain per GET, so fan out with a concurrency cap
+const MAX_CONCURRENT_REQUESTS = 5;
+
+// Prices come back as integers in millionths of the currency unit
+const GODADDY_PRICE_SCALE = 1000000;
+
+interface GoDaddyConfig {
+  apiKey: string;
+  apiSecret: string;
+}
+
+interface GoDaddyAvailability {
+  available?: boolean;
+  definitive?: boolean;
+  price?: number;
+  currency?: string;
+  // Registration term the price covers, in years
+  period?: number;
+}
+
+/**
+ * Build the GoDaddy provider from environment variables (null if not configured)
+ */
+export function createGoDaddyProviderFromEnv(): RegistrarProvider | null {
+  const apiKey = process.env.GODADDY_API_KEY;
+  const apiSecret = process.env.GODADDY_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    return null;
+  }
+
+  return createGoDaddyProvider({ apiKey, apiSecret });
+}
+
+export function createGoDaddyProvider(config: GoDaddyConfig): RegistrarProvider {
+  const fetchAvailability = async (domain: string): Promise<Response> => {
+    return fetchWithRetry(`${GODADDY_API_URL}?domain=${encodeURIComponent(domain)}`, {
+      method: "GET",
+      headers: {
+        Authorization: `sso-key ${config.apiKey}:${config.apiSecret}`,
+        Accept: "application/json",
+      },
+    });
+  };
+
+  const checkSingleDomain = async (domain: string): Promise<DomainCheckResult> => {
+    try {
+      const response = await fetchAvailability(domain);
+
+      if (!response.ok) {
+        return {
+          domain,
+          status: "unknown",
+          premium: false,
+          errorMessage: `API error: ${response.status}`,
+          provider: "godaddy",
+        };
+      }
+
+      const data = (await response.json()) as GoDaddyAvailability;
+      return parseGoDaddyResult(domain, data);
+    } catch (error) {
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        provider: "godaddy",
+      };
+    }
+  };
+
+  return {
+    id: "godaddy",
+    displayName: "GoDaddy",
+    capabilities: {
+      availability: true,
+      pricing: true,
+      maxBatchSize: 1,
+      // GoDaddy allows 60 requests per minute per endpoint
+      rateLimit: { capacity: 60, refillPerSecond: 1 },
+    },
+    supports: () => true,
+    check: (domains) => parallelMap(domains, checkSingleDomain, MAX_CONCURRENT_REQUESTS),
+    price: async (domain): Promise<PriceQuote | null> => {
+      const response = await fetchAvailability(domain);
+      if (!response.ok) {
+        throw new Error(`GoDaddy API error: ${response.status}`);
+      }
+
+      const data = (await response.json()) as GoDaddyAvailability;
+      const pricing = parseGoDaddyPricing(data);
+      if (!pricing) {
+        return null;
+      }
+
+      return {
+        domain,
+        provider: "godaddy",
+        pricing,
+        registrationUrl: `https://www.godaddy.com/domainsearch/find?domainToCheck=${encodeURIComponent(domain)}`,
+      };
+    },
+  };
+}
+
+function parseGoDaddyResult(domain: string, data: GoDaddyAvailability): DomainCheckResult {
+  const available = data.available === true;
+  const pricing = available ? parseGoDaddyPricing(data) : undefined;
+  // The availability endpoint has no premium flag, so the price class is the only signal
+  const premium = available && isPriceClassPremium(domain, pricing);
+
+  return {
+    domain,
+    status: available ? "available" : "taken",
+    premium,
+    premiumReason: premium ? "price_class" : undefined,
+    price: premium ? pricing?.registration : undefined,
+    pricing,
+    provider: "godaddy",
+    // GoDaddy sets definitive=false when it answered from cache rather than the registry
+    definitive: data.definitive,
+  };
+}
+
+/**
+ * The availability endpoint only quotes a new registration (for `period` years);
+ * renewal and transfer prices aren't exposed to API resellers.
+ */
+function parseGoDaddyPricing(data: GoDaddyAvailability): DomainPricing | undefined {
+  if (!data.price) {
+    return undefined;
+  }
+
+  const years = data.period && data.period > 0 ? data.period : 1;
+  return {
+    currency: (data.currency ?? "USD").toUpperCase(),
+    registration: data.price / GODADDY_PRICE_SCALE / years,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Bucket provider error messages into codes the health stats can count
+ */
+export function classifyProviderError(message: string): string {
+  if (/rate limit|too many|\b429\b/i.test(message)) return "rate_limited";
+  if (/abort|timed? ?out/i.test(message)) return "timeout";
+
+  const status = message.match(/\b([45]\d{2})\b/)?.[1];
+  if (status) return `http_${status}`;
+
+  if (/ECONN|ENOTFOUND|EAI_AGAIN|socket|network|fetch failed/i.test(message)) return "network";
+  return "error";
+}
@@ -0,0 +1,83 @@
+// Retry / concurrency defaults shared by HTTP-based providers
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 300;
+const REQUEST_TIMEOUT_MS = 5000; // 5 second timeout per request
+
+/**
+ * Sleep helper for delays
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetch with exponential backoff retry
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  maxRetries = MAX_RETRIES
+): Promise<Response> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      // Add timeout using AbortController
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (response.status === 429) {
+        const delay = BASE_DELAY_MS * Math.pow(2, attempt);
+        console.log(`Rate limited, waiting ${delay}ms before retry ${attempt + 1}/${maxRetries}`);
+        await sleep(delay);
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (lastError.name === "AbortError") {
+        console.log(`Request timed out after ${REQUEST_TIMEOUT_MS}ms`);
+        break; // Don't retry on timeout
+      }
+      const delay = BASE_DELAY_MS * Math.pow(2, attempt);
+      console.log(`Request failed, waiting ${delay}ms before retry ${attempt + 1}/${maxRetries}`);
+      await sleep(delay);
+    }
+  }
+
+  throw lastError || new Error("Max retries exceeded");
+}
+
+/**
+ * Process items in parallel with concurrency limit
+ */
+export async function parallelMap<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>,
+  concurrency: number
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let index = 0;
+
+  async function worker(): Promise<void> {
+    while (index < items.length) {
+      const currentIndex = index++;
+      results[currentIndex] = await fn(items[currentIndex]);
+    }
+  }
+
+  const workers = Array(Math.min(concurrency, items.length))
+    .fill(null)
+    .map(() => worker());
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,258 @@
+"use node";
+
+import { type DnsResolver, prefilterWithDns } from "./dns";
+import { createGoDaddyProviderFromEnv } from "./godaddy";
+import { classifyProviderError } from "./health";
+import { sleep } from "./http";
+import { createMockProviderFromEnv } from "./mock";
+import { createNamecheapProviderFromEnv } from "./namecheap";
+import { createRdapProvider } from "./rdap";
+import type {
+  CheckStageStats,
+  DomainCheckReport,
+  DomainCheckResult,
+  ProviderCallOutcome,
+  ProviderHealthHooks,
+  RateLimit,
+  RateLimitGrant,
+  RateLimitNotice,
+  RegistrarProvider,
+} from "./types";
+import { createWhoisProvider } from "./whois";
+
+export { comparePrices } from "./compare";
+export { createDnsResolverFromEnv } from "./dns";
+export type {
+  CheckStageStats,
+  ComparedQuote,
+  DomainCheckReport,
+  DomainCheckResult,
+  PremiumReason,
+  PriceComparison,
+  PriceQuote,
+  ProviderCallOutcome,
+  ProviderHealthHooks,
+  RateLimit,
+  RateLimitGrant,
+  RegistrarProvider,
+} from "./types";
+
+// Order used when DOMAIN_PROVIDERS is not set. RDAP and WHOIS need no keys, so teams without
+// registrar credentials still get real registry answers (WHOIS picks up the TLDs RDAP
+// doesn't cover); mock stays last as the offline fallback.
+const DEFAULT_PROVIDER_ORDER = ["godaddy", "namecheap", "rdap", "whois", "mock"];
+
+export interface ProviderChainOptions {
+  // Mock fixture to answer from (e.g. a thread's mockScenario); falls back to MOCK_SCENARIO
+  mockScenario?: string;
+}
+
+// Factories return null when the provider's credentials are missing
+const PROVIDER_FACTORIES: Record<
+  string,
+  (options: ProviderChainOptions) => RegistrarProvider | null
+> = {
+  godaddy: createGoDaddyProviderFromEnv,
+  namecheap: createNamecheapProviderFromEnv,
+  rdap: () => createRdapProvider(),
+  whois: () => createWhoisProvider(),
+  mock: (options) => createMockProviderFromEnv(options.mockScenario),
+};
+
+/**
+ * Read the configured provider order, e.g. DOMAIN_PROVIDERS="namecheap,godaddy,mock"
+ */
+function readProviderOrder(): string[] {
+  const configured = process.env.DOMAIN_PROVIDERS;
+  if (!configured) {
+    return DEFAULT_PROVIDER_ORDER;
+  }
+
+  return configured
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => id.length > 0);
+}
+
+/**
+ * Resolve the ordered fallback chain of usable providers
+ */
+export function getProviderChain(
+  order: string[] = readProviderOrder(),
+  options: ProviderChainOptions = {}
+): RegistrarProvider[] {
+  const chain: RegistrarProvider[] = [];
+
+  for (const id of order) {
+    const factory = PROVIDER_FACTORIES[id];
+    if (!factory) {
+      console.warn(`Unknown domain provider "${id}", skipping`);
+      continue;
+    }
+
+    const provider = factory(options);
+    if (!provider) {
+      console.log(`Domain provider "${id}" not configured, skipping`);
+      continue;
+    }
+
+    chain.push(provider);
+  }
+
+  // Never end up with nothing to ask
+  if (chain.length === 0) {
+    chain.push(createMockProviderFromEnv(options.mockScenario));
+  }
+
+  return chain;
+}
+
+// Takes tokens from the provider's shared bucket before it is called
+export type AcquireTokens = (
+  provider: string,
+  tokens: number,
+  limit: RateLimit
+) => Promise<RateLimitGrant>;
+
+interface AvailabilityCheckOptions {
+  chain: RegistrarProvider[];
+  // DNS pre-filter; null skips the stage
+  resolver: DnsResolver | null;
+  acquire?: AcquireTokens;
+  health?: ProviderHealthHooks;
+}
+
+/**
+ * Full availability pipeline: DNS pre-filter, then the provider chain for whatever is left
+ */
+export async function runAvailabilityCheck(
+  domains: string[],
+  { chain, resolver, acquire, health }: AvailabilityCheckOptions
+): Promise<DomainCheckReport> {
+  if (!resolver) {
+    return checkWithFallback(domains, chain, acquire, health);
+  }
+
+  const { taken, ambiguous } = await prefilterWithDns(domains, resolver);
+  const report = await checkWithFallback(ambiguous, chain, acquire, health);
+  const results = new Map(
+    [...taken, ...report.results].map((result) => [result.domain, result] as const)
+  );
+
+  return {
+    results: domains.flatMap((domain) => results.get(domain) ?? []),
+    stages: [{ stage: "dns", input: domains.length, resolved: taken.length }, ...report.stages],
+    rateLimits: report.rateLimits,
+    openCircuits: report.openCircuits,
+  };
+}
+
+/**
+ * Check domains against each provider in order. Domains a provider can't
+ * answer (unsupported, errored, rate limited, circuit open, or the whole call threw)
+ * move down the chain.
+ */
+export async function checkWithFallback(
+  domains: string[],
+  chain: RegistrarProvider[],
+  acquire?: AcquireTokens,
+  health?: ProviderHealthHooks
+): Promise<DomainCheckReport> {
+  const results = new Map<string, DomainCheckResult>();
+  const stages: CheckStageStats[] = [];
+  const rateLimits: RateLimitNotice[] = [];
+  const openCircuits: string[] = [];
+  let pending = domains;
+
+  for (const provider of chain) {
+    if (pending.length === 0) {
+      break;
+    }
+
+    const supported = pending.filter((domain) => provider.supports(domain));
+    if (supported.length === 0) {
+      continue;
+    }
+
+    if (health && !(await health.allow(provider.id))) {
+      console.log(`${provider.displayName} circuit open, skipping`);
+      openCircuits.push(provider.id);
+      continue;
+    }
+
+    const { rateLimit, maxBatchSize } = provider.capabilities;
+    if (acquire && rateLimit) {
+      const requests = Math.ceil(supported.length / maxBatchSize);
+      const grant = await acquire(provider.id, requests, rateLimit);
+
+      if (grant.waitMs > 0 || !grant.granted) {
+        rateLimits.push({ provider: provider.id, waitMs: grant.waitMs, skipped: !grant.granted });
+      }
+      if (!grant.granted) {
+        console.log(`${provider.displayName} quota exhausted (~${grant.waitMs}ms wait), skipping`);
+        continue;
+      }
+      if (grant.waitMs > 0) {
+        console.log(`${provider.displayName} quota exhausted, queueing for ${grant.waitMs}ms`);
+        await sleep(grant.waitMs);
+      }
+    }
+
+    const startedAt = Date.now();
+    let outcome: ProviderCallOutcome;
+    try {
+      const answers = await provider.check(supported);
+      for (const answer of answers) {
+        results.set(answer.domain, answer);
+      }
+      outcome = describeOutcome(answers, Date.now() - startedAt);
+    } catch (error) {
+      console.error(`${provider.displayName} check failed, trying next provider:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      outcome = {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        errorCode: classifyProviderError(message),
+        errorMessage: message,
+      };
+    }
+    await health?.record(provider.id, outcome);
+
+    const before = pending.length;
+    pending = pending.filter((domain) => {
+      const result = results.get(domain);
+      return !result || result.status === "unknown";
+    });
+    stages.push({ stage: provider.id, input: supported.length, resolved: before - pending.length });
+  }
+
+  return {
+    results: domains.map(
+      (domain) =>
+        results.get(domain) ?? {
+          domain,
+          status: "unknown",
+          premium: false,
+          errorMessage: "No provider could check this domain",
+          provider: "none",
+        }
+    ),
+    stages,
+    rateLimits: rateLimits.length > 0 ? rateLimits : undefined,
+    openCircuits: openCircuits.length > 0 ? openCircuits : undefined,
+  };
+}
+
+/**
+ * A call that answered nothing but "unknown" counts as a failure - providers report most
+ * upstream errors per domain instead of throwing
+ */
+function describeOutcome(answers: DomainCheckResult[], latencyMs: number): ProviderCallOutcome {
+  const failed = answers.length > 0 && answers.every((answer) => answer.status === "unknown");
+  if (!failed) {
+    return { ok: true, latencyMs };
+  }
+
+  const errorMessage = answers[0]?.errorMessage ?? "No answer";
+  return { ok: false, latencyMs, errorCode: classifyProviderError(errorMessage), errorMessage };
+}
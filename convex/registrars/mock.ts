@@ -0,0 +1,159 @@
+import { sleep } from "./http";
+import { isPriceClassPremium } from "./premium";
+import { getMockScenario, type MockAnswer, type MockRule, type MockScenario } from "./scenarios";
+import type { DomainCheckResult, DomainPricing, RegistrarProvider } from "./types";
+
+// Rough retail [registration, renewal, transfer] in USD so the UI has realistic numbers
+const MOCK_TLD_PRICES: Record<string, [number, number, number]> = {
+  ".com": [10.99, 15.99, 10.99],
+  ".net": [12.99, 16.99, 12.99],
+  ".org": [9.99, 15.99, 9.99],
+  ".io": [39.99, 59.99, 49.99],
+  ".co": [11.99, 32.99, 24.99],
+  ".dev": [14.99, 16.99, 14.99],
+  ".app": [16.99, 18.99, 16.99],
+  ".ai": [79.99, 89.99, 79.99],
+};
+const MOCK_DEFAULT_PRICES: [number, number, number] = [14.99, 19.99, 14.99];
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Build the mock provider for a scenario; MOCK_SCENARIO picks the deployment default
+ * and a thread's pinned scenario (threadMockScenarios) overrides it.
+ */
+export function createMockProviderFromEnv(scenario?: string): RegistrarProvider {
+  return createMockProvider(getMockScenario(scenario ?? process.env.MOCK_SCENARIO));
+}
+
+/**
+ * Offline provider used when no registrar is configured (or all of them fail).
+ * Answers come from a scenario fixture, so the same domains always get the same result.
+ */
+export function createMockProvider(
+  scenario: MockScenario = getMockScenario(undefined)
+): RegistrarProvider {
+  const rules = scenario.rules.map((rule) => ({ rule, pattern: compileMatch(rule.match) }));
+
+  const answerFor = (domain: string): MockAnswer =>
+    rules.find(({ pattern }) => pattern.test(domain))?.rule ?? scenario.fallback;
+
+  const checkSingleDomain = async (domain: string): Promise<DomainCheckResult> => {
+    const answer = answerFor(domain.toLowerCase());
+
+    if (answer.outcome === "timeout") {
+      await sleep(scenario.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: "Request timed out",
+        provider: "mock",
+        simulated: true,
+      };
+    }
+
+    const latencyMs = answer.latencyMs ?? scenario.latencyMs ?? 0;
+    if (latencyMs > 0) {
+      await sleep(latencyMs);
+    }
+    return toResult(domain, answer);
+  };
+
+  return {
+    id: "mock",
+    displayName: "Mock",
+    capabilities: {
+      availability: true,
+      pricing: true,
+      maxBatchSize: Number.POSITIVE_INFINITY,
+    },
+    supports: () => true,
+    // Answers are independent, so latency overlaps like a concurrent fan-out would
+    check: (domains) => Promise.all(domains.map(checkSingleDomain)),
+    price: async (domain) => {
+      const answer = answerFor(domain.toLowerCase());
+      if (answer.outcome === "error" || answer.outcome === "timeout") {
+        throw new Error(answer.errorMessage ?? "Mock provider error");
+      }
+      return { domain, provider: "mock", pricing: mockPricing(domain, answer), simulated: true };
+    },
+  };
+}
+
+function toResult(domain: string, answer: MockAnswer): DomainCheckResult {
+  switch (answer.outcome) {
+    case "taken":
+      return {
+        domain,
+        status: "taken",
+        premium: false,
+        registrar: answer.registrar,
+        provider: "mock",
+        simulated: true,
+      };
+    case "reserved":
+      return { domain, status: "reserved", premium: false, provider: "mock", simulated: true };
+    case "error":
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: answer.errorMessage ?? "Mock provider error",
+        provider: "mock",
+        simulated: true,
+      };
+    case "premium": {
+      const pricing = mockPricing(domain, answer);
+      // price_class carries no explicit flag - detect it the same way as a real registrar quote
+      const premiumReason =
+        answer.premiumReason === "price_class" && !isPriceClassPremium(domain, pricing)
+          ? undefined
+          : (answer.premiumReason ?? "registry_premium");
+
+      return {
+        domain,
+        status: "available",
+        premium: premiumReason !== undefined,
+        premiumReason,
+        price: premiumReason ? pricing.registration : undefined,
+        pricing,
+        // Aftermarket sales go through a broker, so a registrar can't confirm them
+        definitive: premiumReason === "aftermarket" ? false : undefined,
+        provider: "mock",
+        simulated: true,
+      };
+    }
+    default:
+      return {
+        domain,
+        status: "available",
+        premium: false,
+        pricing: mockPricing(domain, answer),
+        provider: "mock",
+        simulated: true,
+      };
+  }
+}
+
+function mockPricing(domain: string, answer: MockAnswer): DomainPricing {
+  const tld = domain.slice(domain.indexOf("."));
+  const [registration, renewal, transfer] = MOCK_TLD_PRICES[tld] ?? MOCK_DEFAULT_PRICES;
+  return {
+    currency: "USD",
+    registration: answer.price ?? registration,
+    renewal: answer.renewal ?? renewal,
+    transfer: answer.transfer ?? transfer,
+  };
+}
+
+/**
+ * "/regex/" is used as-is; anything else is a case-insensitive glob where * matches any run
+ */
+function compileMatch(match: MockRule["match"]): RegExp {
+  if (match.length > 2 && match.startsWith("/") && match.endsWith("/")) {
+    return new RegExp(match.slice(1, -1), "i");
+  }
+  const escaped = match.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
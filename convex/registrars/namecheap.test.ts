@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { parseNamecheapCheckResponse, parseNamecheapPricingResponse } from "./namecheap";
+
+const CHECK_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="OK" xmlns="http://api.namecheap.com/xml.response">
+  <Errors />
+  <RequestedCommand>namecheap.domains.check</RequestedCommand>
+  <CommandResponse Type="namecheap.domains.check">
+    <DomainCheckResult Domain="domainbot.com" Available="false" ErrorNo="0" Description="" IsPremiumName="false" PremiumRegistrationPrice="0" PremiumRenewalPrice="0" PremiumRestorePrice="0" PremiumTransferPrice="0" IcannFee="0" EapFee="0.0" />
+    <DomainCheckResult Domain="domainbot.io" Available="true" ErrorNo="0" Description="" IsPremiumName="false" PremiumRegistrationPrice="0" PremiumRenewalPrice="0" PremiumRestorePrice="0" PremiumTransferPrice="0" IcannFee="0" EapFee="0.0" />
+    <DomainCheckResult Domain="ai.xyz" Available="True" ErrorNo="0" Description="" IsPremiumName="True" PremiumRegistrationPrice="2500.0000" PremiumRenewalPrice="12.9800" PremiumRestorePrice="0" PremiumTransferPrice="12.9800" IcannFee="0.18" EapFee="0.0" />
+    <DomainCheckResult Domain="bad.invalidtld" Available="false" ErrorNo="2030280" Description="TLD is not supported &amp; can't be checked" IsPremiumName="false" />
+  </CommandResponse>
+  <Server>PHX01APIEXT03</Server>
+  <ExecutionTime>1.374</ExecutionTime>
+</ApiResponse>`;
+
+const PRICING_RESPONSE = `<?xml version="1.0" encoding="UTF-8"?>
+<ApiResponse Status="OK" xmlns="http://api.namecheap.com/xml.response">
+  <Errors />
+  <CommandResponse Type="namecheap.users.getPricing">
+    <UserGetPricingResult>
+      <ProductType Name="domains">
+        <ProductCategory Name="register">
+          <Product Name="io">
+            <Price Duration="1" DurationType="YEAR" Price="39.98" RegularPrice="59.98" YourPrice="34.98" CouponPrice="" Currency="USD" />
+            <Price Duration="2" DurationType="YEAR" Price="79.96" RegularPrice="119.96" YourPrice="69.96" CouponPrice="" Currency="USD" />
+          </Product>
+        </ProductCategory>
+        <ProductCategory Name="renew">
+          <Product Name="io">
+            <Price Duration="1" DurationType="YEAR" Price="59.98" RegularPrice="59.98" YourPrice="" CouponPrice="" Currency="USD" />
+          </Product>
+        </ProductCategory>
+        <ProductCategory Name="transfer">
+          <Product Name="io">
+            <Price Duration="1" DurationType="YEAR" Price="52.98" RegularPrice="52.98" YourPrice="52.98" CouponPrice="" Currency="USD" />
+          </Product>
+        </ProductCategory>
+      </ProductType>
+    </UserGetPricingResult>
+  </CommandResponse>
+</ApiResponse>`;
+
+const ERROR_RESPONSE = `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="ERROR" xmlns="http://api.namecheap.com/xml.response">
+  <Errors>
+    <Error Number="1011150">Parameter RequestIP is invalid</Error>
+  </Errors>
+  <CommandResponse />
+</ApiResponse>`;
+
+describe("parseNamecheapCheckResponse", () => {
+  it("reads availability, premium prices and per-domain errors", () => {
+    const response = parseNamecheapCheckResponse(CHECK_RESPONSE);
+    expect(response.status).toBe("OK");
+    expect(response.errors).toEqual([]);
+    expect(response.results).toEqual([
+      expect.objectContaining({ domain: "domainbot.com", available: false, premium: false }),
+      expect.objectContaining({ domain: "domainbot.io", available: true, premium: false }),
+      {
+        domain: "ai.xyz",
+        available: true,
+        premium: true,
+        premiumRegistrationPrice: 2500,
+        premiumRenewalPrice: 12.98,
+        premiumTransferPrice: 12.98,
+        errorNumber: "0",
+        errorDescription: undefined,
+      },
+      expect.objectContaining({
+        domain: "bad.invalidtld",
+        errorNumber: "2030280",
+        errorDescription: "TLD is not supported & can't be checked",
+      }),
+    ]);
+  });
+
+  it("treats zero premium prices as missing", () => {
+    const [entry] = parseNamecheapCheckResponse(CHECK_RESPONSE).results;
+    expect(entry.premiumRegistrationPrice).toBeUndefined();
+  });
+
+  it("reports API errors from the envelope", () => {
+    const response = parseNamecheapCheckResponse(ERROR_RESPONSE);
+    expect(response.status).toBe("ERROR");
+    expect(response.errors).toEqual([
+      { number: "1011150", message: "Parameter RequestIP is invalid" },
+    ]);
+    expect(response.results).toEqual([]);
+  });
+});
+
+describe("parseNamecheapPricingResponse", () => {
+  it("takes the one-year price per category, preferring the account's own price", () => {
+    expect(parseNamecheapPricingResponse(PRICING_RESPONSE).pricing).toEqual({
+      currency: "USD",
+      registration: 34.98,
+      renewal: 59.98,
+      transfer: 52.98,
+    });
+  });
+
+  it("has no pricing when the response lists none", () => {
+    const response = parseNamecheapPricingResponse(ERROR_RESPONSE);
+    expect(response.status).toBe("ERROR");
+    expect(response.pricing).toBeUndefined();
+  });
+});
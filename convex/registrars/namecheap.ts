@@ -0,0 +1,303 @@
+import { getPublicSuffix } from "../lib/publicSuffix";
+import { fetchWithRetry, parallelMap } from "./http";
+import type { DomainCheckResult, DomainPricing, PriceQuote, RegistrarProvider } from "./types";
+
+// Namecheap API configuration (override with NAMECHEAP_API_URL for the sandbox or a local fake)
+const NAMECHEAP_API_URL = "https://api.namecheap.com/xml.response";
+
+// namecheap.domains.check accepts up to 50 comma-separated domains per call
+const MAX_DOMAINS_PER_REQUEST = 50;
+const MAX_CONCURRENT_REQUESTS = 2;
+
+interface NamecheapConfig {
+  apiUser: string;
+  apiKey: string;
+  username: string;
+  clientIp: string;
+  apiUrl?: string;
+}
+
+export interface NamecheapCheckEntry {
+  domain: string;
+  available: boolean;
+  premium: boolean;
+  premiumRegistrationPrice?: number;
+  premiumRenewalPrice?: number;
+  premiumTransferPrice?: number;
+  errorNumber?: string;
+  errorDescription?: string;
+}
+
+export interface NamecheapApiError {
+  number: string;
+  message: string;
+}
+
+export interface NamecheapCheckResponse {
+  status: string;
+  errors: NamecheapApiError[];
+  results: NamecheapCheckEntry[];
+}
+
+export interface NamecheapPricingResponse {
+  status: string;
+  errors: NamecheapApiError[];
+  pricing?: DomainPricing;
+}
+
+/**
+ * Build the Namecheap provider from environment variables (null if not configured)
+ */
+export function createNamecheapProviderFromEnv(): RegistrarProvider | null {
+  const apiUser = process.env.NAMECHEAP_API_USER;
+  const apiKey = process.env.NAMECHEAP_API_KEY;
+  const username = process.env.NAMECHEAP_USERNAME;
+  const clientIp = process.env.NAMECHEAP_CLIENT_IP;
+
+  if (!apiUser || !apiKey || !username || !clientIp) {
+    return null;
+  }
+
+  return createNamecheapProvider({
+    apiUser,
+    apiKey,
+    username,
+    clientIp,
+    apiUrl: process.env.NAMECHEAP_API_URL,
+  });
+}
+
+export function createNamecheapProvider(config: NamecheapConfig): RegistrarProvider {
+  const apiUrl = config.apiUrl ?? NAMECHEAP_API_URL;
+
+  const callApi = async (command: string, extra: Record<string, string>): Promise<string> => {
+    const params = new URLSearchParams({
+      ApiUser: config.apiUser,
+      ApiKey: config.apiKey,
+      UserName: config.username,
+      ClientIp: config.clientIp,
+      Command: command,
+      ...extra,
+    });
+
+    const response = await fetchWithRetry(`${apiUrl}?${params}`, { method: "GET" });
+    if (!response.ok) {
+      throw new Error(`Namecheap API error: ${response.status}`);
+    }
+    return response.text();
+  };
+
+  const checkBatch = async (batch: string[]): Promise<DomainCheckResult[]> => {
+    const parsed = parseNamecheapCheckResponse(
+      await callApi("namecheap.domains.check", { DomainList: batch.join(",") })
+    );
+    if (parsed.status !== "OK") {
+      throw new Error(`Namecheap API error: ${describeErrors(parsed)}`);
+    }
+
+    const byDomain = new Map(parsed.results.map((entry) => [entry.domain.toLowerCase(), entry]));
+
+    return batch.map((domain): DomainCheckResult => {
+      const entry = byDomain.get(domain.toLowerCase());
+      if (!entry) {
+        return {
+          domain,
+          status: "unknown",
+          premium: false,
+          errorMessage: "Domain missing from Namecheap response",
+          provider: "namecheap",
+        };
+      }
+
+      if (entry.errorNumber && entry.errorNumber !== "0") {
+        return {
+          domain,
+          // Namecheap reports registry-reserved names as an error on the entry
+          status: /reserved/i.test(entry.errorDescription ?? "") ? "reserved" : "unknown",
+          premium: false,
+          errorMessage:
+            `Namecheap error ${entry.errorNumber}: ${entry.errorDescription ?? ""}`.trim(),
+          provider: "namecheap",
+        };
+      }
+
+      return {
+        domain,
+        status: entry.available ? "available" : "taken",
+        premium: entry.premium,
+        // IsPremiumName reflects the registry's premium tier
+        premiumReason: entry.premium ? "registry_premium" : undefined,
+        price: entry.premium ? entry.premiumRegistrationPrice : undefined,
+        pricing: entry.premium ? premiumPricing(entry) : undefined,
+        provider: "namecheap",
+      };
+    });
+  };
+
+  // Standard (non-premium) prices come from the account's price list for the TLD
+  const tldPricing = async (tld: string): Promise<DomainPricing | undefined> => {
+    const xml = await callApi("namecheap.users.getPricing", {
+      ProductType: "DOMAIN",
+      ProductName: tld,
+    });
+    const parsed = parseNamecheapPricingResponse(xml);
+    if (parsed.status !== "OK") {
+      throw new Error(`Namecheap API error: ${describeErrors(parsed)}`);
+    }
+    return parsed.pricing;
+  };
+
+  return {
+    id: "namecheap",
+    displayName: "Namecheap",
+    capabilities: {
+      availability: true,
+      pricing: true,
+      maxBatchSize: MAX_DOMAINS_PER_REQUEST,
+      // domains.check, then users.getPricing for non-premium names
+      priceRequests: 2,
+      // Namecheap allows 20 calls per minute
+      rateLimit: { capacity: 20, refillPerSecond: 20 / 60 },
+    },
+    supports: () => true,
+    check: async (domains) => {
+      const batches = chunk(domains, MAX_DOMAINS_PER_REQUEST);
+      const results = await parallelMap(batches, checkBatch, MAX_CONCURRENT_REQUESTS);
+      return results.flat();
+    },
+    price: async (domain): Promise<PriceQuote | null> => {
+      const registrationUrl = `https://www.namecheap.com/domains/registration/results/?domain=${encodeURIComponent(domain)}`;
+
+      // Premium names carry their own prices; everything else uses the TLD price list
+      const [result] = await checkBatch([domain]);
+      if (result?.pricing) {
+        return { domain, provider: "namecheap", pricing: result.pricing, registrationUrl };
+      }
+
+      // Namecheap prices second-level suffixes as their own products ("co.uk")
+      const pricing = await tldPricing(getPublicSuffix(domain));
+      return pricing ? { domain, provider: "namecheap", pricing, registrationUrl } : null;
+    },
+  };
+}
+
+// Namecheap quotes everything in USD
+function premiumPricing(entry: NamecheapCheckEntry): DomainPricing | undefined {
+  if (entry.premiumRegistrationPrice === undefined) {
+    return undefined;
+  }
+  return {
+    currency: "USD",
+    registration: entry.premiumRegistrationPrice,
+    renewal: entry.premiumRenewalPrice,
+    transfer: entry.premiumTransferPrice,
+  };
+}
+
+function describeErrors(response: { status: string; errors: NamecheapApiError[] }): string {
+  const detail = response.errors.map((e) => `${e.number}: ${e.message}`).join("; ");
+  return detail || response.status;
+}
+
+/**
+ * Parse a namecheap.domains.check XML response.
+ * The response is flat enough that attribute scanning beats pulling in an XML parser.
+ */
+export function parseNamecheapCheckResponse(xml: string): NamecheapCheckResponse {
+  const { status, errors } = parseEnvelope(xml);
+
+  const results: NamecheapCheckEntry[] = [];
+  for (const match of xml.matchAll(/<DomainCheckResult\b([^>]*?)\/?>/gi)) {
+    const attributes = parseAttributes(match[1]);
+    if (!attributes.Domain) {
+      continue;
+    }
+
+    results.push({
+      domain: attributes.Domain,
+      available: attributes.Available?.toLowerCase() === "true",
+      premium: attributes.IsPremiumName?.toLowerCase() === "true",
+      premiumRegistrationPrice: parsePrice(attributes.PremiumRegistrationPrice),
+      premiumRenewalPrice: parsePrice(attributes.PremiumRenewalPrice),
+      premiumTransferPrice: parsePrice(attributes.PremiumTransferPrice),
+      errorNumber: attributes.ErrorNo,
+      errorDescription: attributes.Description || undefined,
+    });
+  }
+
+  return { status, errors, results };
+}
+
+/**
+ * Parse a namecheap.users.getPricing response for a single TLD into one-year
+ * register/renew/transfer prices (the account's own price, not list price).
+ */
+export function parseNamecheapPricingResponse(xml: string): NamecheapPricingResponse {
+  const { status, errors } = parseEnvelope(xml);
+
+  let pricing: DomainPricing | undefined;
+  const categories = xml.matchAll(/<ProductCategory\b([^>]*)>([\s\S]*?)<\/ProductCategory>/gi);
+  for (const [, categoryAttributes, body] of categories) {
+    const category = parseAttributes(categoryAttributes).Name?.toLowerCase();
+    const oneYear = [...body.matchAll(/<Price\b([^>]*?)\/?>/gi)]
+      .map((match) => parseAttributes(match[1]))
+      .find((attributes) => attributes.Duration === "1");
+    const amount = parsePrice(oneYear?.YourPrice) ?? parsePrice(oneYear?.Price);
+    if (!oneYear || amount === undefined) {
+      continue;
+    }
+
+    pricing ??= { currency: (oneYear.Currency ?? "USD").toUpperCase() };
+    if (category === "register") pricing.registration = amount;
+    if (category === "renew") pricing.renewal = amount;
+    if (category === "transfer") pricing.transfer = amount;
+  }
+
+  return { status, errors, pricing };
+}
+
+function parseEnvelope(xml: string): { status: string; errors: NamecheapApiError[] } {
+  const status =
+    xml.match(/<ApiResponse\b[^>]*\bStatus="([^"]*)"/i)?.[1]?.toUpperCase() ?? "UNKNOWN";
+
+  const errors: NamecheapApiError[] = [];
+  for (const match of xml.matchAll(/<Error\b([^>]*)>([\s\S]*?)<\/Error>/gi)) {
+    const attributes = parseAttributes(match[1]);
+    errors.push({
+      number: attributes.Number ?? "",
+      message: decodeXmlEntities(match[2].trim()),
+    });
+  }
+
+  return { status, errors };
+}
+
+function parsePrice(value: string | undefined): number | undefined {
+  const price = Number.parseFloat(value ?? "");
+  return Number.isFinite(price) && price > 0 ? price : undefined;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,38 @@
+import { convertCurrency } from "../lib/currency";
+import { getPublicSuffix } from "../lib/publicSuffix";
+import standardPrices from "./data/standard-prices.json";
+import type { DomainPricing } from "./types";
+
+// A quote this many times the TLD's usual price means the registry put the name in a
+// higher price class, even when the registrar doesn't flag it as premium
+const PRICE_CLASS_MULTIPLIER = 3;
+
+const STANDARD_REGISTRATION: Record<string, number> = standardPrices.registration;
+
+/**
+ * Typical first-year price for a TLD in `currency`, from the bundled table
+ */
+export function standardRegistrationPrice(tld: string, currency: string): number | undefined {
+  const price = STANDARD_REGISTRATION[tld.replace(/^\./, "").toLowerCase()];
+  return price === undefined
+    ? undefined
+    : convertCurrency(price, standardPrices.currency, currency);
+}
+
+/**
+ * Whether a quoted registration price sits well above the TLD's standard price.
+ * Compares against the TLD rather than a flat threshold, so expensive ccTLDs
+ * (.ai, .io) aren't mistaken for premium names. Unknown TLDs give no signal.
+ */
+export function isPriceClassPremium(domain: string, pricing: DomainPricing | undefined): boolean {
+  if (pricing?.registration === undefined) {
+    return false;
+  }
+
+  // Second-level suffixes (.co.uk) fall back to their TLD's price when not listed
+  const suffix = getPublicSuffix(domain);
+  const standard =
+    standardRegistrationPrice(suffix, pricing.currency) ??
+    standardRegistrationPrice(suffix.slice(suffix.lastIndexOf(".") + 1), pricing.currency);
+  return standard !== undefined && pricing.registration > standard * PRICE_CLASS_MULTIPLIER;
+}
@@ -0,0 +1,159 @@
+import bootstrapFile from "./data/rdap-dns.json";
+import { normalizeEppStatus } from "./eppStatus";
+import { fetchWithRetry, parallelMap } from "./http";
+import type { DomainCheckResult, RegistrarProvider } from "./types";
+
+// Registries are shared infrastructure - keep the fan-out polite
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Shape of the IANA RDAP bootstrap file (RFC 9224)
+ */
+export interface RdapBootstrap {
+  // Each entry is [tlds, baseUrls]
+  services: string[][][];
+}
+
+interface RdapEvent {
+  eventAction?: string;
+  eventDate?: string;
+}
+
+interface RdapEntity {
+  roles?: string[];
+  vcardArray?: [string, Array<[string, unknown, string, unknown]>];
+}
+
+interface RdapDomain {
+  ldhName?: string;
+  status?: string[];
+  events?: RdapEvent[];
+  entities?: RdapEntity[];
+}
+
+/**
+ * Map each TLD to the first RDAP base URL listed for it
+ */
+export function buildRdapServerMap(bootstrap: RdapBootstrap): Map<string, string> {
+  const servers = new Map<string, string>();
+  for (const [tlds, urls] of bootstrap.services) {
+    const baseUrl = urls.find((url) => url.startsWith("https://")) ?? urls[0];
+    if (!baseUrl) {
+      continue;
+    }
+    for (const tld of tlds) {
+      servers.set(tld.toLowerCase(), baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+    }
+  }
+  return servers;
+}
+
+/**
+ * Registry lookup over RDAP. Needs no credentials, but a 404 only means the
+ * registry has no record - not that a registrar will sell the name - so
+ * "available" answers are marked non-definitive.
+ */
+export function createRdapProvider(bootstrap: RdapBootstrap = bootstrapFile): RegistrarProvider {
+  const servers = buildRdapServerMap(bootstrap);
+
+  const serverFor = (domain: string): string | undefined => {
+    const tld = domain.slice(domain.lastIndexOf(".") + 1).toLowerCase();
+    return servers.get(tld);
+  };
+
+  const checkSingleDomain = async (domain: string): Promise<DomainCheckResult> => {
+    const baseUrl = serverFor(domain);
+    if (!baseUrl) {
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: "No RDAP server for this TLD",
+        provider: "rdap",
+      };
+    }
+
+    try {
+      const response = await fetchWithRetry(`${baseUrl}domain/${encodeURIComponent(domain)}`, {
+        method: "GET",
+        headers: { Accept: "application/rdap+json" },
+      });
+
+      if (response.status === 404) {
+        return {
+          domain,
+          status: "available",
+          premium: false,
+          definitive: false,
+          provider: "rdap",
+        };
+      }
+
+      if (!response.ok) {
+        return {
+          domain,
+          status: "unknown",
+          premium: false,
+          errorMessage: `RDAP error: ${response.status}`,
+          provider: "rdap",
+        };
+      }
+
+      const data = (await response.json()) as RdapDomain;
+      return {
+        domain,
+        status: "taken",
+        premium: false,
+        definitive: true,
+        provider: "rdap",
+        ...parseRdapRegistration(data),
+      };
+    } catch (error) {
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        provider: "rdap",
+      };
+    }
+  };
+
+  return {
+    id: "rdap",
+    displayName: "RDAP",
+    capabilities: {
+      availability: true,
+      pricing: false,
+      maxBatchSize: 1,
+      // No published quota, but registries throttle bursts
+      rateLimit: { capacity: 10, refillPerSecond: 2 },
+    },
+    supports: (domain) => serverFor(domain) !== undefined,
+    check: (domains) => parallelMap(domains, checkSingleDomain, MAX_CONCURRENT_REQUESTS),
+    price: async () => null,
+  };
+}
+
+/**
+ * Pull registrar name, registration/expiry dates and registry statuses out of an RDAP domain object
+ */
+export function parseRdapRegistration(
+  data: RdapDomain
+): Pick<DomainCheckResult, "registrar" | "registeredAt" | "expiresAt" | "registryStatuses"> {
+  const eventDate = (action: string): number | undefined => {
+    const event = data.events?.find((e) => e.eventAction === action);
+    const timestamp = event?.eventDate ? Date.parse(event.eventDate) : Number.NaN;
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+  };
+
+  const registrarEntity = data.entities?.find((entity) => entity.roles?.includes("registrar"));
+  const fn = registrarEntity?.vcardArray?.[1]?.find((field) => field[0] === "fn");
+
+  return {
+    registrar: typeof fn?.[3] === "string" ? fn[3] : undefined,
+    registeredAt: eventDate("registration"),
+    expiresAt: eventDate("expiration"),
+    registryStatuses: data.status?.map(normalizeEppStatus),
+  };
+}
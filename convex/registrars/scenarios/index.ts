@@ -0,0 +1,59 @@
+import type { PremiumReason } from "../types";
+import allAvailable from "./all-available.json";
+import allTaken from "./all-taken.json";
+import defaultScenario from "./default.json";
+import flaky from "./flaky.json";
+import premiumMix from "./premium-mix.json";
+
+export type MockOutcome = "available" | "taken" | "premium" | "reserved" | "error" | "timeout";
+
+/**
+ * What the mock answers for the domains a rule matches
+ */
+export interface MockAnswer {
+  outcome: MockOutcome;
+  premiumReason?: PremiumReason;
+  // First-year price; premium answers need one, others fall back to the TLD price list
+  price?: number;
+  renewal?: number;
+  transfer?: number;
+  registrar?: string;
+  errorMessage?: string;
+  // Overrides the scenario's latency for this rule
+  latencyMs?: number;
+}
+
+export interface MockRule extends MockAnswer {
+  // Glob over the full domain ("*.ai", "acme.com") or a /regex/
+  match: string;
+}
+
+export interface MockScenario {
+  description: string;
+  // Delay before every answer, to reproduce loading states
+  latencyMs?: number;
+  // How long a "timeout" answer hangs before giving up
+  timeoutMs?: number;
+  // First matching rule wins
+  rules: MockRule[];
+  fallback: MockAnswer;
+}
+
+export const DEFAULT_MOCK_SCENARIO = "default";
+
+// Fixtures are plain JSON so they can be edited without touching the provider
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  default: defaultScenario as MockScenario,
+  "all-available": allAvailable as MockScenario,
+  "all-taken": allTaken as MockScenario,
+  "premium-mix": premiumMix as MockScenario,
+  flaky: flaky as MockScenario,
+};
+
+export function getMockScenario(name: string | undefined): MockScenario {
+  const scenario = name ? MOCK_SCENARIOS[name] : undefined;
+  if (name && !scenario) {
+    console.warn(`Unknown mock scenario "${name}", using "${DEFAULT_MOCK_SCENARIO}"`);
+  }
+  return scenario ?? MOCK_SCENARIOS[DEFAULT_MOCK_SCENARIO];
+}
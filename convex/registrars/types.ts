@@ -0,0 +1,172 @@
+/**
+ * Shared types for domain availability / registrar providers
+ */
+
+import type { DomainValidationError } from "../lib/domainName";
+import type { DomainPricing } from "../lib/pricing";
+
+export type { DomainPricing } from "../lib/pricing";
+
+/**
+ * unknown = the provider couldn't answer (timeout, API error) - never treat it as taken.
+ * reserved = held by the registry (blocked, restricted, not open for registration).
+ */
+export type AvailabilityStatus = "available" | "taken" | "unknown" | "reserved";
+
+/**
+ * Why a name is priced above the TLD's standard rate:
+ * registry_premium = the registry's own premium tier (reported by the registrar)
+ * aftermarket = registered, but listed for resale
+ * price_class = quoted well above the TLD's usual price with no explicit flag
+ */
+export type PremiumReason = "registry_premium" | "aftermarket" | "price_class";
+
+export interface DomainCheckResult {
+  // ASCII form, as registries see it ("xn--mnchen-3ya.de")
+  domain: string;
+  // Unicode form of an internationalized domain ("münchen.de")
+  unicode?: string;
+  status: AvailabilityStatus;
+  premium: boolean;
+  // Set whenever premium is true
+  premiumReason?: PremiumReason;
+  // Premium first-year price (kept for older readers; same value as pricing.registration)
+  price?: number;
+  // Registration/renewal/transfer prices when the provider quoted them
+  pricing?: DomainPricing;
+  errorMessage?: string;
+  // Id of the provider that produced this answer (e.g. "godaddy", "mock")
+  provider: string;
+  // Made up by the mock provider - never present it as a real registry answer
+  simulated?: boolean;
+  // false when the source can only say "the registry has no record" rather than "you can buy it"
+  definitive?: boolean;
+  // Registration details reported by the registry (RDAP/WHOIS), epoch ms
+  registrar?: string;
+  registeredAt?: number;
+  expiresAt?: number;
+  // Registry status codes in EPP form (e.g. "pendingDelete", "redemptionPeriod")
+  registryStatuses?: string[];
+  // Served from availabilityCache rather than a live lookup
+  cached?: boolean;
+}
+
+export interface PriceQuote {
+  domain: string;
+  provider: string;
+  pricing: DomainPricing;
+  // Where to buy it from this provider, when it sells domains directly
+  registrationUrl?: string;
+  // Fixture price from the mock provider
+  simulated?: boolean;
+}
+
+export interface ComparedQuote extends PriceQuote {
+  // Cost of holding the domain over the comparison horizon, in the comparison currency
+  totalCost?: number;
+}
+
+/**
+ * Every configured provider's price for one domain, cheapest first
+ */
+export interface PriceComparison {
+  domain: string;
+  // Currency totalCost is expressed in
+  currency: string;
+  // Horizon totalCost covers (first year + renewals)
+  years: number;
+  // Real quotes cheapest first, then simulated ones
+  quotes: ComparedQuote[];
+  // Cheapest real quote; never a simulated one
+  cheapest?: ComparedQuote;
+  // Providers that were asked but couldn't quote
+  failures: Array<{ provider: string; errorMessage: string }>;
+}
+
+export interface ProviderCapabilities {
+  // Can answer "is this domain free?"
+  availability: boolean;
+  // Can quote a registration price
+  pricing: boolean;
+  // Max domains the upstream API accepts in a single request
+  maxBatchSize: number;
+  // Upstream calls one price() makes (defaults to 1)
+  priceRequests?: number;
+  // Upstream request quota, enforced deployment-wide by the rateLimiter buckets
+  rateLimit?: RateLimit;
+}
+
+export interface RateLimit {
+  // Burst size
+  capacity: number;
+  // Sustained requests per second
+  refillPerSecond: number;
+}
+
+export interface RateLimitGrant {
+  granted: boolean;
+  // How long the caller has to wait for its reserved tokens (or would have had to)
+  waitMs: number;
+}
+
+export interface RateLimitNotice {
+  provider: string;
+  waitMs: number;
+  // true when the wait was too long and the provider was skipped
+  skipped: boolean;
+}
+
+/**
+ * How one provider call went, for the providerHealth stats
+ */
+export interface ProviderCallOutcome {
+  ok: boolean;
+  latencyMs: number;
+  // Coarse failure class, e.g. "timeout", "http_503", "network"
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Circuit breaker around provider calls: providers whose circuit is open are skipped
+ * and the domains move down the chain
+ */
+export interface ProviderHealthHooks {
+  allow(provider: string): Promise<boolean>;
+  record(provider: string, outcome: ProviderCallOutcome): Promise<void>;
+}
+
+/**
+ * A source of availability / pricing answers (registrar API, registry, mock...)
+ */
+export interface RegistrarProvider {
+  id: string;
+  displayName: string;
+  capabilities: ProviderCapabilities;
+  // Whether this provider can answer for the given domain (e.g. TLD coverage)
+  supports(domain: string): boolean;
+  check(domains: string[]): Promise<DomainCheckResult[]>;
+  price(domain: string): Promise<PriceQuote | null>;
+}
+
+/**
+ * How many candidates a pipeline stage (DNS pre-filter, a provider) was given and settled
+ */
+export interface CheckStageStats {
+  stage: string;
+  input: number;
+  resolved: number;
+}
+
+export interface DomainCheckReport {
+  results: DomainCheckResult[];
+  // Inputs that aren't valid domains, with the reason
+  invalid?: DomainValidationError[];
+  stages: CheckStageStats[];
+  // Providers that made us queue (or were skipped) because their quota was exhausted
+  rateLimits?: RateLimitNotice[];
+  // Providers skipped because their circuit breaker is open
+  openCircuits?: string[];
+  // Background job checking the domains beyond the per-call cap
+  job?: { jobId: string; queued: number };
+}
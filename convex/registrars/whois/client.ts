@@ -0,0 +1,41 @@
+"use node";
+
+import { createConnection } from "node:net";
+
+const WHOIS_PORT = 43;
+const WHOIS_TIMEOUT_MS = 5000;
+
+interface WhoisQueryOptions {
+  host: string;
+  port?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Send a single WHOIS query over TCP and resolve with the raw response text
+ */
+export function queryWhois(query: string, options: WhoisQueryOptions): Promise<string> {
+  const { host, port = WHOIS_PORT, timeoutMs = WHOIS_TIMEOUT_MS } = options;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const socket = createConnection({ host, port });
+
+    socket.setTimeout(timeoutMs);
+    socket.on("connect", () => {
+      socket.write(`${query}\r\n`);
+    });
+    socket.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+    socket.on("timeout", () => {
+      socket.destroy(new Error(`WHOIS query to ${host} timed out after ${timeoutMs}ms`));
+    });
+    socket.on("error", reject);
+    socket.on("close", (hadError) => {
+      if (!hadError) {
+        resolve(Buffer.concat(chunks).toString("utf8"));
+      }
+    });
+  });
+}
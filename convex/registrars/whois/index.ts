@@ -0,0 +1,98 @@
+"use node";
+
+import defaultServers from "../data/whois-servers.json";
+import { parallelMap } from "../http";
+import type { DomainCheckResult, RegistrarProvider } from "../types";
+import { queryWhois } from "./client";
+import { getWhoisParser } from "./parsers";
+
+// WHOIS servers rate limit aggressively - one or two connections at a time
+const MAX_CONCURRENT_QUERIES = 2;
+
+interface WhoisProviderOptions {
+  // TLD -> WHOIS host; defaults to the bundled map
+  servers?: Record<string, string>;
+  port?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Port-43 WHOIS lookup for TLDs without RDAP. Like RDAP, "free" here is the
+ * registry's view, so available answers are non-definitive.
+ */
+export function createWhoisProvider(options: WhoisProviderOptions = {}): RegistrarProvider {
+  const servers: Record<string, string> = options.servers ?? defaultServers;
+
+  const tldOf = (domain: string): string => domain.slice(domain.lastIndexOf(".") + 1).toLowerCase();
+
+  const checkSingleDomain = async (domain: string): Promise<DomainCheckResult> => {
+    const tld = tldOf(domain);
+    const host = servers[tld];
+    if (!host) {
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: "No WHOIS server for this TLD",
+        provider: "whois",
+      };
+    }
+
+    try {
+      const parser = getWhoisParser(tld);
+      const response = await queryWhois(parser.formatQuery(domain), {
+        host,
+        port: options.port,
+        timeoutMs: options.timeoutMs,
+      });
+      const parsed = parser.parse(response);
+
+      if (parsed.rateLimited || parsed.registered === undefined) {
+        return {
+          domain,
+          status: "unknown",
+          premium: false,
+          errorMessage: parsed.rateLimited
+            ? "WHOIS rate limit reached"
+            : "Unrecognised WHOIS response",
+          provider: "whois",
+        };
+      }
+
+      return {
+        domain,
+        status: parsed.reserved ? "reserved" : parsed.registered ? "taken" : "available",
+        premium: false,
+        definitive: parsed.registered,
+        provider: "whois",
+        registrar: parsed.registrar,
+        registeredAt: parsed.registeredAt,
+        expiresAt: parsed.expiresAt,
+        registryStatuses: parsed.statuses,
+      };
+    } catch (error) {
+      return {
+        domain,
+        status: "unknown",
+        premium: false,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+        provider: "whois",
+      };
+    }
+  };
+
+  return {
+    id: "whois",
+    displayName: "WHOIS",
+    capabilities: {
+      availability: true,
+      pricing: false,
+      maxBatchSize: 1,
+      // WHOIS servers start refusing connections quickly
+      rateLimit: { capacity: 5, refillPerSecond: 0.5 },
+    },
+    supports: (domain) => servers[tldOf(domain)] !== undefined,
+    check: (domains) => parallelMap(domains, checkSingleDomain, MAX_CONCURRENT_QUERIES),
+    price: async () => null,
+  };
+}
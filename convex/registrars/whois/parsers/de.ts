@@ -0,0 +1,9 @@
+import { createWhoisParser } from "./generic";
+
+// DENIC only prints a status line - there is no public expiry date for .de
+export const deParser = createWhoisParser({
+  formatQuery: (domain) => `-T dn,ace ${domain}`,
+  notFound: [/^status:\s*free\s*$/im],
+  registered: [/^status:\s*(connect|failed|invalid)\s*$/im],
+  rateLimited: [/^% Error: 55000000002/im],
+});
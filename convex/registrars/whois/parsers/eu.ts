@@ -0,0 +1,9 @@
+import { createWhoisParser } from "./generic";
+
+// EURid keeps expiry private and reports availability as a status word
+export const euParser = createWhoisParser({
+  notFound: [/^status:\s*available\s*$/im],
+  registered: [/^domain:\s*\S+/im],
+  rateLimited: [/^%.*maximum number of queries/im],
+  registrar: [/^registrar:\s*\n\s*name:\s*(.+)$/im],
+});
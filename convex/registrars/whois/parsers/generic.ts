@@ -0,0 +1,113 @@
+import { normalizeEppStatus } from "../../eppStatus";
+import type { WhoisParser, WhoisParserRules, WhoisParseResult } from "./types";
+
+// Markers used by the gTLD registries and most ccTLDs that follow their format
+export const GENERIC_RULES: WhoisParserRules = {
+  notFound: [
+    /^no match for/im,
+    /^not found/im,
+    /^no data found/im,
+    /^no entries found/im,
+    /^%+ ?nothing found/im,
+    /^domain not found/im,
+    /^the queried object does not exist/im,
+    /is available for registration/i,
+    /^status:\s*(free|available)\s*$/im,
+  ],
+  registered: [/^domain name:\s*\S+/im, /^domain:\s*\S+/im],
+  reserved: [/^status:\s*reserved\s*$/im, /reserved (?:domain|name) by the registry/i],
+  rateLimited: [/limit exceeded/i, /too many (requests|queries)/i, /try again later/i],
+  expiresAt: [
+    /^\s*registry expiry date:\s*(.+)$/im,
+    /^\s*registrar registration expiration date:\s*(.+)$/im,
+    /^\s*expir(?:y|ation) date:\s*(.+)$/im,
+    /^\s*expires(?: on)?:\s*(.+)$/im,
+    /^\s*paid-till:\s*(.+)$/im,
+  ],
+  registeredAt: [
+    /^\s*creation date:\s*(.+)$/im,
+    /^\s*created(?: on)?:\s*(.+)$/im,
+    /^\s*registered on:\s*(.+)$/im,
+  ],
+  registrar: [/^\s*registrar:\s*(.+)$/im, /^\s*sponsoring registrar:\s*(.+)$/im],
+  status: [/^\s*domain status:\s*(.+)$/gim],
+};
+
+/**
+ * Build a parser from marker rules. Per-TLD modules override the pieces
+ * their registry prints differently.
+ */
+export function createWhoisParser(rules: WhoisParserRules): WhoisParser {
+  return {
+    formatQuery: rules.formatQuery ?? ((domain) => domain),
+    parse: (response): WhoisParseResult => {
+      if (rules.rateLimited?.some((pattern) => pattern.test(response))) {
+        return { rateLimited: true };
+      }
+
+      if (rules.reserved?.some((pattern) => pattern.test(response))) {
+        return { registered: false, reserved: true };
+      }
+
+      if (rules.notFound.some((pattern) => pattern.test(response))) {
+        return { registered: false };
+      }
+
+      const expiresAt = parseWhoisDate(firstMatch(response, rules.expiresAt));
+      const registeredAt = parseWhoisDate(firstMatch(response, rules.registeredAt));
+      const registrar = firstMatch(response, rules.registrar);
+      const hasRegistrationMarker =
+        expiresAt !== undefined ||
+        registeredAt !== undefined ||
+        (rules.registered?.some((pattern) => pattern.test(response)) ?? false);
+
+      if (!hasRegistrationMarker) {
+        return {};
+      }
+
+      const statuses = allMatches(response, rules.status).map(normalizeEppStatus);
+      return {
+        registered: true,
+        registrar,
+        registeredAt,
+        expiresAt,
+        statuses: statuses.length > 0 ? statuses : undefined,
+      };
+    },
+  };
+}
+
+export const genericParser = createWhoisParser(GENERIC_RULES);
+
+function firstMatch(response: string, patterns: RegExp[] = []): string | undefined {
+  for (const pattern of patterns) {
+    const value = response.match(pattern)?.[1]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function allMatches(response: string, patterns: RegExp[] = []): string[] {
+  const values = patterns.flatMap((pattern) =>
+    [...response.matchAll(pattern)].map((match) => match[1]?.trim() ?? "")
+  );
+  return [...new Set(values.filter((value) => value.length > 0))];
+}
+
+/**
+ * Parse the date formats registries print: ISO 8601, 2025/01/31, 23-Jan-2026, 2025.01.31
+ */
+export function parseWhoisDate(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const cleaned = value
+    .replace(/\s*\(.*\)\s*$/, "")
+    .replace(/^(\d{4})[./](\d{2})[./](\d{2})/, "$1-$2-$3")
+    .trim();
+  const timestamp = Date.parse(cleaned);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { parseWhoisDate } from "./generic";
+import { getWhoisParser } from "./index";
+
+const VERISIGN_REGISTERED = `   Domain Name: EXAMPLE.COM
+   Registry Domain ID: 2336799_DOMAIN_COM-VRSN
+   Registrar WHOIS Server: whois.iana.org
+   Updated Date: 2024-08-14T07:01:34Z
+   Creation Date: 1995-08-14T04:00:00Z
+   Registry Expiry Date: 2025-08-13T04:00:00Z
+   Registrar: RESERVED-Internet Assigned Numbers Authority
+   Domain Status: clientDeleteProhibited https://icann.org/epp#clientDeleteProhibited
+   Domain Status: clientTransferProhibited https://icann.org/epp#clientTransferProhibited
+   Name Server: A.IANA-SERVERS.NET
+>>> Last update of whois database: 2024-11-20T10:15:21Z <<<`;
+
+const VERISIGN_FREE = `No match for "DOMAINBOT-UNREGISTERED.COM".
+>>> Last update of whois database: 2024-11-20T10:16:02Z <<<`;
+
+const DENIC_REGISTERED = `Domain: example.de
+Nserver: a.iana-servers.net
+Status: connect
+Changed: 2018-03-12T21:44:25+01:00`;
+
+const DENIC_FREE = `Domain: domainbot-unregistered.de
+Status: free`;
+
+const NOMINET_REGISTERED = `
+    Domain name:
+        example.co.uk
+
+    Registrant:
+        Example Ltd
+
+    Registrar:
+        Example Registrar Ltd [Tag = EXAMPLE]
+        URL: https://registrar.example
+
+    Relevant dates:
+        Registered on: 26-Aug-1996
+        Expiry date:  26-Aug-2026
+        Last updated:  04-Aug-2024
+`;
+
+const NOMINET_FREE = `
+    No match for "domainbot-unregistered.co.uk".
+
+    This domain name has not been registered.
+`;
+
+const EURID_REGISTERED = `Domain: example.eu
+Script: LATIN
+
+Registrar:
+        Name: Example Registrar GmbH
+        Website: https://registrar.example
+`;
+
+const REGISTRO_IT_REGISTERED = `Domain:             example.it
+Status:             ok
+Created:            1998-11-17 00:00:00
+Expire Date:        2025-11-17
+
+Registrar
+  Organization:     Example Registrar S.r.l.
+  Name:             EXAMPLE-REG
+`;
+
+const JPRS_REGISTERED = `[ JPRS database provides information on network administration. ]
+Domain Information:
+a. [Domain Name]                EXAMPLE.JP
+[Registered Date]               2001/02/16
+[Expires on]                    2026/02/28
+[Status]                        Active`;
+
+describe("getWhoisParser", () => {
+  it("reads registrar, dates and EPP statuses from gTLD responses", () => {
+    expect(getWhoisParser("com").parse(VERISIGN_REGISTERED)).toEqual({
+      registered: true,
+      registrar: "RESERVED-Internet Assigned Numbers Authority",
+      registeredAt: Date.parse("1995-08-14T04:00:00Z"),
+      expiresAt: Date.parse("2025-08-13T04:00:00Z"),
+      statuses: ["clientDeleteProhibited", "clientTransferProhibited"],
+    });
+    expect(getWhoisParser("com").parse(VERISIGN_FREE)).toEqual({ registered: false });
+  });
+
+  it("reads DENIC's status line and asks for ASCII output", () => {
+    const de = getWhoisParser("DE");
+    expect(de.formatQuery("example.de")).toBe("-T dn,ace example.de");
+    expect(de.parse(DENIC_REGISTERED)).toMatchObject({ registered: true });
+    expect(de.parse(DENIC_FREE)).toEqual({ registered: false });
+    expect(
+      de.parse("% Error: 55000000002 Connection refused; access control limit reached")
+    ).toEqual({ rateLimited: true });
+  });
+
+  it("reads Nominet's labelled blocks", () => {
+    const uk = getWhoisParser("uk");
+    expect(uk.parse(NOMINET_REGISTERED)).toMatchObject({
+      registered: true,
+      registrar: "Example Registrar Ltd [Tag = EXAMPLE]",
+      registeredAt: Date.parse("26-Aug-1996"),
+      expiresAt: Date.parse("26-Aug-2026"),
+    });
+    expect(uk.parse(NOMINET_FREE)).toEqual({ registered: false });
+  });
+
+  it("reads EURid, Registro.it and JPRS responses", () => {
+    expect(getWhoisParser("eu").parse(EURID_REGISTERED)).toMatchObject({
+      registered: true,
+      registrar: "Example Registrar GmbH",
+    });
+    expect(getWhoisParser("eu").parse("Domain: free.eu\nStatus: AVAILABLE")).toEqual({
+      registered: false,
+    });
+    expect(getWhoisParser("it").parse(REGISTRO_IT_REGISTERED)).toMatchObject({
+      registered: true,
+      registrar: "Example Registrar S.r.l.",
+      expiresAt: Date.parse("2025-11-17"),
+    });
+
+    const jp = getWhoisParser("jp");
+    expect(jp.formatQuery("example.jp")).toBe("example.jp/e");
+    expect(jp.parse(JPRS_REGISTERED)).toMatchObject({
+      registered: true,
+      registeredAt: Date.parse("2001-02-16"),
+      expiresAt: Date.parse("2026-02-28"),
+    });
+    expect(jp.parse("No match!!")).toEqual({ registered: false });
+  });
+
+  it("tells rate limits and registry reservations apart from answers", () => {
+    const generic = getWhoisParser("xyz");
+    expect(generic.parse("Query limit exceeded, try again later")).toEqual({ rateLimited: true });
+    expect(generic.parse("Domain: premium.xyz\nStatus: Reserved")).toEqual({
+      registered: false,
+      reserved: true,
+    });
+    expect(generic.parse("Unrecognized reply")).toEqual({});
+  });
+});
+
+describe("parseWhoisDate", () => {
+  it.each([
+    ["2025-08-13T04:00:00Z", "2025-08-13T04:00:00Z"],
+    ["2025/01/31", "2025-01-31"],
+    ["2025.01.31", "2025-01-31"],
+    ["2026-01-23 (YYYY-MM-DD)", "2026-01-23"],
+  ])("parses %s", (value, iso) => {
+    expect(parseWhoisDate(value)).toBe(Date.parse(iso));
+  });
+
+  it("gives up on text that isn't a date", () => {
+    expect(parseWhoisDate("never")).toBeUndefined();
+    expect(parseWhoisDate(undefined)).toBeUndefined();
+  });
+});
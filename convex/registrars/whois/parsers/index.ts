@@ -0,0 +1,22 @@
+import { deParser } from "./de";
+import { euParser } from "./eu";
+import { genericParser } from "./generic";
+import { itParser } from "./it";
+import { jpParser } from "./jp";
+import type { WhoisParser } from "./types";
+import { ukParser } from "./uk";
+
+export type { WhoisParser, WhoisParseResult } from "./types";
+
+// TLDs whose registry output needs its own markers; everything else uses the generic rules
+const PARSERS_BY_TLD: Record<string, WhoisParser> = {
+  de: deParser,
+  eu: euParser,
+  it: itParser,
+  jp: jpParser,
+  uk: ukParser,
+};
+
+export function getWhoisParser(tld: string): WhoisParser {
+  return PARSERS_BY_TLD[tld.toLowerCase()] ?? genericParser;
+}
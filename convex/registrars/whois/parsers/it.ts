@@ -0,0 +1,9 @@
+import { createWhoisParser } from "./generic";
+
+export const itParser = createWhoisParser({
+  notFound: [/^status:\s*available\s*$/im],
+  registered: [/^domain:\s*\S+/im],
+  expiresAt: [/^expire date:\s*(.+)$/im],
+  registeredAt: [/^created:\s*(.+)$/im],
+  registrar: [/^registrar\s*\n\s*organization:\s*(.+)$/im],
+});
@@ -0,0 +1,10 @@
+import { createWhoisParser } from "./generic";
+
+// JPRS answers in Japanese unless the query ends with "/e"
+export const jpParser = createWhoisParser({
+  formatQuery: (domain) => `${domain}/e`,
+  notFound: [/^no match!!/im],
+  registered: [/^\s*\[domain name\]\s+\S+/im],
+  expiresAt: [/^\s*\[expires on\]\s+(.+)$/im],
+  registeredAt: [/^\s*\[registered date\]\s+(.+)$/im, /^\s*\[created on\]\s+(.+)$/im],
+});
@@ -0,0 +1,32 @@
+export interface WhoisParseResult {
+  // undefined when the response matched neither "free" nor "registered" markers
+  registered?: boolean;
+  // Blocked/held by the registry rather than registered by someone
+  reserved?: boolean;
+  rateLimited?: boolean;
+  registrar?: string;
+  registeredAt?: number;
+  expiresAt?: number;
+  // EPP status codes from "Domain Status:" lines
+  statuses?: string[];
+}
+
+export interface WhoisParser {
+  // Some registries want extra flags around the domain (e.g. DENIC, JPRS)
+  formatQuery(domain: string): string;
+  parse(response: string): WhoisParseResult;
+}
+
+export interface WhoisParserRules {
+  notFound: RegExp[];
+  // Markers that prove a registration when no expiry line is printed
+  registered?: RegExp[];
+  reserved?: RegExp[];
+  rateLimited?: RegExp[];
+  expiresAt?: RegExp[];
+  registeredAt?: RegExp[];
+  registrar?: RegExp[];
+  // Every match is collected; needs the g flag
+  status?: RegExp[];
+  formatQuery?: (domain: string) => string;
+}
@@ -0,0 +1,11 @@
+import { createWhoisParser } from "./generic";
+
+// Nominet prints labelled blocks with the value on the following line
+export const ukParser = createWhoisParser({
+  notFound: [/this domain name has not been registered/i, /^\s*no match for/im],
+  registered: [/^\s*registrant:\s*$/im],
+  rateLimited: [/query rate limit/i],
+  expiresAt: [/^\s*expiry date:\s*(.+)$/im],
+  registeredAt: [/^\s*registered on:\s*(.+)$/im],
+  registrar: [/^\s*registrar:\s*\n\s*(.+)$/im],
+});
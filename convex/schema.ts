@@ -1,6 +1,32 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Mirrors AvailabilityStatus in registrars/types.ts
+export const availabilityStatus = v.union(
+  v.literal("available"),
+  v.literal("taken"),
+  v.literal("unknown"),
+  v.literal("reserved")
+);
+
+// Mirrors PremiumReason in registrars/types.ts
+export const premiumReason = v.union(
+  v.literal("registry_premium"),
+  v.literal("aftermarket"),
+  v.literal("price_class")
+);
+
+// Mirrors StrategyType in generation/strategies.ts
+export const strategyType = v.union(v.literal("pattern"), v.literal("blend"));
+
+// Mirrors DomainPricing in lib/pricing.ts
+export const domainPricing = v.object({
+  currency: v.string(),
+  registration: v.optional(v.number()),
+  renewal: v.optional(v.number()),
+  transfer: v.optional(v.number()),
+});
+
 export default defineSchema({
   // User accounts (extended by Better Auth)
   users: defineTable({
@@ -10,6 +36,10 @@ export default defineSchema({
     selectedTheme: v.optional(v.string()),
     selectedProvider: v.optional(v.string()),
     selectedModel: v.optional(v.string()),
+    // ISO 4217 code prices are shown in (converted with the bundled rates)
+    displayCurrency: v.optional(v.string()),
+    // Days between background re-checks of saved domains (lib/recheckInterval.ts)
+    recheckIntervalDays: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_email", ["email"]),
@@ -59,15 +89,145 @@ export default defineSchema({
     domain: v.string(),
     tld: v.string(),
     available: v.boolean(),
+    // Absent on rows saved before tri-state results; fall back to `available`
+    status: v.optional(availabilityStatus),
     premium: v.optional(v.boolean()),
+    premiumReason: v.optional(premiumReason),
     price: v.optional(v.number()),
+    pricing: v.optional(domainPricing),
+    // Last answer came from the mock provider
+    simulated: v.optional(v.boolean()),
     checkedAt: v.number(),
+    // checkedAt + the owner's re-check interval; unset on rows saved before it existed (due now)
+    nextCheckAt: v.optional(v.number()),
+    // Set when a re-check flips the status; cleared once the user has seen it
+    previousStatus: v.optional(availabilityStatus),
+    statusChangedAt: v.optional(v.number()),
     projectIdea: v.optional(v.string()),
     notes: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_user", ["userId"])
-    .index("by_domain", ["domain"]),
+    .index("by_domain", ["domain"])
+    .index("by_next_check", ["nextCheckAt"]),
+
+  // Taken domains a user wants to grab when they drop; re-checked by the watchlist cron
+  watchedDomains: defineTable({
+    userId: v.id("users"),
+    domain: v.string(),
+    status: availabilityStatus,
+    // EPP codes from the registry, e.g. "redemptionPeriod", "pendingDelete"
+    registryStatuses: v.optional(v.array(v.string())),
+    registrar: v.optional(v.string()),
+    // Registration expiry from RDAP/WHOIS, epoch ms
+    expiresAt: v.optional(v.number()),
+    notes: v.optional(v.string()),
+    lastCheckedAt: v.optional(v.number()),
+    // Tightens as expiresAt approaches (see watchlist.nextCheckDelay)
+    nextCheckAt: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_domain", ["userId", "domain"])
+    .index("by_next_check", ["nextCheckAt"]),
+
+  // In-app notifications (drop alerts from the watchlist)
+  notifications: defineTable({
+    userId: v.id("users"),
+    kind: v.union(v.literal("domain_available"), v.literal("domain_pending_delete")),
+    domain: v.string(),
+    message: v.string(),
+    watchedDomainId: v.optional(v.id("watchedDomains")),
+    read: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_read", ["userId", "read"]),
+
+  // Cached availability answers, keyed by normalized domain
+  availabilityCache: defineTable({
+    domain: v.string(),
+    outcome: v.union(
+      v.literal("available"),
+      v.literal("taken"),
+      v.literal("reserved"),
+      v.literal("error")
+    ),
+    result: v.any(), // DomainCheckResult as returned by the provider
+    checkedAt: v.number(),
+    expiresAt: v.number(),
+  }).index("by_domain", ["domain"]),
+
+  // Running availability cache hit/miss counters (single row)
+  availabilityCacheStats: defineTable({
+    hits: v.number(),
+    misses: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // Deployment-wide token buckets, one per availability provider
+  rateLimitBuckets: defineTable({
+    provider: v.string(),
+    // Can go negative: callers reserve tokens ahead and wait for the refill
+    tokens: v.number(),
+    capacity: v.number(),
+    refillPerSecond: v.number(),
+    updatedAt: v.number(),
+  }).index("by_provider", ["provider"]),
+
+  // Rolling per-provider call stats and circuit breaker state
+  providerHealth: defineTable({
+    provider: v.string(),
+    calls: v.number(),
+    failures: v.number(),
+    // Exponentially weighted, so recent calls dominate
+    successRate: v.number(),
+    latencyMs: v.number(),
+    // Failure counts by code ("timeout", "http_503", ...)
+    errorCodes: v.record(v.string(), v.number()),
+    lastError: v.optional(v.string()),
+    lastErrorAt: v.optional(v.number()),
+    consecutiveFailures: v.number(),
+    // closed = normal, open = skipped until the cooldown ends, half_open = one trial call allowed
+    circuit: v.union(v.literal("closed"), v.literal("open"), v.literal("half_open")),
+    // When the circuit last opened, or when the half-open trial started
+    circuitChangedAt: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_provider", ["provider"]),
+
+  // Threads pinned to a mock provider scenario (see mockScenarios.setForThread)
+  threadMockScenarios: defineTable({
+    threadId: v.string(),
+    scenario: v.string(),
+    updatedAt: v.number(),
+  }).index("by_thread", ["threadId"]),
+
+  // Background availability checks for candidate lists too big for one tool call
+  domainCheckJobs: defineTable({
+    threadId: v.optional(v.string()),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    total: v.number(),
+    completed: v.number(),
+    errorMessage: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_thread", ["threadId"]),
+
+  // Per-domain progress for a domainCheckJob
+  domainCheckJobItems: defineTable({
+    jobId: v.id("domainCheckJobs"),
+    domain: v.string(),
+    status: v.union(v.literal("pending"), v.literal("done")),
+    result: v.optional(v.any()), // DomainCheckResult once checked
+    checkedAt: v.optional(v.number()),
+  })
+    .index("by_job", ["jobId"])
+    .index("by_job_status", ["jobId", "status"]),
 
   // Themes (built-in + user-created)
   themes: defineTable({
@@ -99,6 +259,7 @@ export default defineSchema({
   ideationStrategies: defineTable({
     name: v.string(),
     description: v.string(),
+    type: v.optional(strategyType), // Unset = "pattern"; "blend" ignores prefixes/suffixes/patterns
     enabled: v.boolean(),
     prefixes: v.array(v.string()),
     suffixes: v.array(v.string()),
@@ -107,6 +268,46 @@ export default defineSchema({
     updatedAt: v.number(),
   }),
 
+  // Default strategy names seeded so far, so a deleted default isn't seeded again
+  strategySeeds: defineTable({
+    name: v.string(),
+    seededAt: v.number(),
+  }),
+
+  // Vibe profiles: how a vibe ("playful", "enterprise") steers generation (agent can add more)
+  vibeProfiles: defineTable({
+    name: v.string(), // Lowercase identifier passed as vibe
+    description: v.string(),
+    aliases: v.array(v.string()),
+    strategyWeights: v.record(v.string(), v.number()),
+    prefixes: v.array(v.string()),
+    suffixes: v.array(v.string()),
+    minLength: v.optional(v.number()),
+    maxLength: v.optional(v.number()),
+    idealLength: v.optional(v.number()),
+    tlds: v.array(v.string()),
+    isBuiltIn: v.boolean(),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_name", ["name"]),
+
+  // TLDs offered to the generator, the prompt and the chat TLD picker
+  tldCatalog: defineTable({
+    tld: v.string(), // Public suffix with a leading dot, ASCII (".com", ".co.uk")
+    priceBand: v.union(v.literal("budget"), v.literal("standard"), v.literal("premium")),
+    restrictions: v.array(v.union(v.literal("hsts_preload"), v.literal("local_presence"))),
+    restrictionNote: v.optional(v.string()),
+    categories: v.array(v.string()),
+    enabled: v.boolean(),
+    isDefault: v.boolean(), // Generated on when no TLDs are requested
+    rank: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_tld", ["tld"])
+    .index("by_rank", ["rank"]),
+
   // LLM model configurations
   modelConfigs: defineTable({
     provider: v.string(),
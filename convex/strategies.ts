@@ -1,5 +1,12 @@
-import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { query, mutation, internalQuery } from "./_generated/server";
+import { validatePatterns } from "./generation/patterns";
+import { strategyType } from "./schema";
+import {
+  DEFAULT_STRATEGIES,
+  type StrategyDefinition,
+  unseededDefaults,
+} from "./generation/strategies";
 
 // List all ideation strategies
 export const list = query({
@@ -34,16 +41,51 @@ export const listEnabled = query({
   },
 });
 
+// Enabled strategies for the generateDomainNames tool; the defaults until the table is seeded
+export const listEnabledInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<StrategyDefinition[]> => {
+    const seeded = await ctx.db.query("ideationStrategies").first();
+    if (!seeded) {
+      return DEFAULT_STRATEGIES;
+    }
+
+    const enabled = await ctx.db
+      .query("ideationStrategies")
+      .filter((q) => q.eq(q.field("enabled"), true))
+      .collect();
+    return enabled.map(({ name, description, type, prefixes, suffixes, patterns }) => ({
+      name,
+      description,
+      type,
+      prefixes,
+      suffixes,
+      patterns,
+    }));
+  },
+});
+
 // Create or update a strategy
 export const upsert = mutation({
   args: {
     name: v.string(),
     description: v.string(),
+    type: v.optional(strategyType),
     prefixes: v.array(v.string()),
     suffixes: v.array(v.string()),
     patterns: v.array(v.string()),
   },
   handler: async (ctx, args) => {
+    // Reject the whole strategy if any pattern doesn't parse; the error data carries each
+    // problem's position so the agent can fix and retry
+    const errors = validatePatterns(args.patterns);
+    if (errors.length > 0) {
+      throw new ConvexError({
+        message: "Invalid strategy patterns",
+        errors: errors.map(({ pattern, position, message }) => ({ pattern, position, message })),
+      });
+    }
+
     // Check if strategy exists
     const existing = await ctx.db
       .query("ideationStrategies")
@@ -54,6 +96,7 @@ export const upsert = mutation({
       // Update existing
       await ctx.db.patch(existing._id, {
         description: args.description,
+        type: args.type,
         prefixes: args.prefixes,
         suffixes: args.suffixes,
         patterns: args.patterns,
@@ -66,6 +109,7 @@ export const upsert = mutation({
     return await ctx.db.insert("ideationStrategies", {
       name: args.name,
       description: args.description,
+      type: args.type,
       enabled: true,
       prefixes: args.prefixes,
       suffixes: args.suffixes,
@@ -106,59 +150,37 @@ export const remove = mutation({
   },
 });
 
-// Seed default strategies (run once during setup)
+// Seed default strategies not seeded before (run during setup, and again after adding a default)
 export const seedDefaults = mutation({
   args: {},
   handler: async (ctx) => {
-    const existing = await ctx.db.query("ideationStrategies").first();
-    if (existing) {
-      // Already seeded
-      return { seeded: false, message: "Strategies already exist" };
-    }
-
-    const defaultStrategies = [
-      {
-        name: "Prefixed Keywords",
-        description: "Add common prefixes like 'get', 'try', 'use' to keywords",
-        enabled: true,
-        prefixes: ["get", "try", "use", "go", "hey", "my", "the", "just", "now"],
-        suffixes: [],
-        patterns: ["{prefix}{keyword}"],
-      },
-      {
-        name: "Suffixed Keywords",
-        description: "Add common suffixes like 'app', 'hq', 'hub' to keywords",
-        enabled: true,
-        prefixes: [],
-        suffixes: ["app", "hq", "hub", "lab", "base", "ly", "ify", "er", "ster"],
-        patterns: ["{keyword}{suffix}"],
-      },
-      {
-        name: "Compound Words",
-        description: "Combine multiple keywords together",
-        enabled: true,
-        prefixes: [],
-        suffixes: [],
-        patterns: ["{keyword1}{keyword2}", "{keyword2}{keyword1}"],
-      },
-      {
-        name: "Short Forms",
-        description: "Use abbreviations and shortened forms",
-        enabled: true,
-        prefixes: [],
-        suffixes: [],
-        patterns: ["{keyword:3}", "{keyword:4}", "{keyword:5}"],
-      },
-    ];
+    // Defaults added later (like Blends) still reach deployments seeded before them; existing
+    // strategies keep their edits, and ones the user removed aren't brought back
+    const existing = await ctx.db.query("ideationStrategies").collect();
+    const seeds = await ctx.db.query("strategySeeds").collect();
+    const seededNames = new Set(seeds.map((seed) => seed.name));
+    const unseeded = unseededDefaults(seededNames, existing.length > 0);
+    const names = new Set(existing.map((strategy) => strategy.name));
+    const missing = unseeded.filter((strategy) => !names.has(strategy.name));
 
-    for (const strategy of defaultStrategies) {
+    const now = Date.now();
+    for (const strategy of missing) {
       await ctx.db.insert("ideationStrategies", {
         ...strategy,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
       });
     }
+    // A default that already exists by name counts as seeded too
+    for (const strategy of unseeded) {
+      await ctx.db.insert("strategySeeds", { name: strategy.name, seededAt: now });
+    }
 
-    return { seeded: true, count: defaultStrategies.length };
+    if (missing.length === 0) {
+      // Already seeded
+      return { seeded: false, message: "Strategies already exist" };
+    }
+    return { seeded: true, count: missing.length };
   },
 });
@@ -17,10 +17,8 @@ export const create = action({
   },
   handler: async (ctx, { userId, title }) => {
     const { threadId } = await domainBot.createThread(ctx, {
-      metadata: {
-        userId: userId.toString(),
-        title: title ?? "New conversation",
-      },
+      userId: userId.toString(),
+      title: title ?? "New conversation",
     });
     return threadId;
   },
@@ -45,7 +43,7 @@ export const listByUser = query({
     return threads.page.map((t) => ({
       _id: t._id,
       _creationTime: t._creationTime,
-      title: (t.metadata as { title?: string })?.title ?? "Untitled",
+      title: t.title ?? "Untitled",
       userId: userId,
       createdAt: t._creationTime,
       updatedAt: t._creationTime,
@@ -68,7 +66,7 @@ export const get = query({
     return {
       _id: thread._id,
       _creationTime: thread._creationTime,
-      title: (thread.metadata as { title?: string })?.title ?? "Untitled",
+      title: thread.title ?? "Untitled",
       createdAt: thread._creationTime,
       updatedAt: thread._creationTime,
     };
@@ -121,7 +119,6 @@ export const updateTitle = mutation({
     title: v.string(),
   },
   handler: async (ctx, { threadId, title }) => {
-    // Get current thread to preserve metadata
     const thread = await ctx.runQuery(components.agent.threads.getThread, {
       threadId,
     });
@@ -129,10 +126,7 @@ export const updateTitle = mutation({
     if (thread) {
       await ctx.runMutation(components.agent.threads.updateThread, {
         threadId,
-        metadata: {
-          ...(thread.metadata as object),
-          title,
-        },
+        patch: { title },
       });
     }
   },
@@ -0,0 +1,89 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query, type QueryCtx } from "./_generated/server";
+import { DEFAULT_TLD_CATALOG, type TldCatalogEntry } from "./lib/tldCatalog";
+
+// List the whole catalog, disabled TLDs included
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("tldCatalog").withIndex("by_rank").collect();
+  },
+});
+
+// Enabled TLDs for the chat picker
+export const listEnabled = query({
+  args: {},
+  handler: async (ctx): Promise<TldCatalogEntry[]> => {
+    const catalog = await loadCatalog(ctx);
+    return catalog.filter((tld) => tld.enabled);
+  },
+});
+
+// Whole catalog for the agent's generator and system prompt, which also need to know what's disabled
+export const listInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<TldCatalogEntry[]> => {
+    return await loadCatalog(ctx);
+  },
+});
+
+// Toggle whether a TLD is offered at all
+export const toggleEnabled = mutation({
+  args: {
+    tldId: v.id("tldCatalog"),
+  },
+  handler: async (ctx, { tldId }) => {
+    const tld = await ctx.db.get(tldId);
+    if (!tld) {
+      throw new Error("TLD not found");
+    }
+
+    await ctx.db.patch(tldId, {
+      enabled: !tld.enabled,
+      updatedAt: Date.now(),
+    });
+
+    return { enabled: !tld.enabled };
+  },
+});
+
+// Seed the default catalog (run once during setup)
+export const seedDefaults = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const existing = await ctx.db.query("tldCatalog").first();
+    if (existing) {
+      // Already seeded
+      return { seeded: false, message: "TLD catalog already exists" };
+    }
+
+    for (const tld of DEFAULT_TLD_CATALOG) {
+      await ctx.db.insert("tldCatalog", {
+        ...tld,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+
+    return { seeded: true, count: DEFAULT_TLD_CATALOG.length };
+  },
+});
+
+// Until the catalog is seeded, fall back to the defaults so generation keeps working
+async function loadCatalog(ctx: QueryCtx): Promise<TldCatalogEntry[]> {
+  const rows = await ctx.db.query("tldCatalog").withIndex("by_rank").collect();
+  if (rows.length === 0) {
+    return DEFAULT_TLD_CATALOG;
+  }
+
+  return rows.map((row) => ({
+    tld: row.tld,
+    priceBand: row.priceBand,
+    restrictions: row.restrictions,
+    restrictionNote: row.restrictionNote,
+    categories: row.categories,
+    enabled: row.enabled,
+    isDefault: row.isDefault,
+    rank: row.rank,
+  }));
+}
@@ -1,5 +1,7 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalQuery } from "./_generated/server";
+import { isSupportedCurrency } from "./lib/currency";
+import { isSupportedRecheckInterval, recheckIntervalMs } from "./lib/recheckInterval";
 
 // Get or create an anonymous user
 export const getOrCreateAnonymous = mutation({
@@ -69,3 +71,48 @@ export const updateModel = mutation({
     return { success: true };
   },
 });
+
+export const updateDisplayCurrency = mutation({
+  args: {
+    userId: v.id("users"),
+    currency: v.string(),
+  },
+  handler: async (ctx, { userId, currency }) => {
+    if (!isSupportedCurrency(currency)) {
+      throw new Error(`Unsupported currency: ${currency}`);
+    }
+    await ctx.db.patch(userId, { displayCurrency: currency.toUpperCase(), updatedAt: Date.now() });
+    return { success: true };
+  },
+});
+
+export const updateRecheckInterval = mutation({
+  args: {
+    userId: v.id("users"),
+    days: v.number(),
+  },
+  handler: async (ctx, { userId, days }) => {
+    if (!isSupportedRecheckInterval(days)) {
+      throw new Error(`Unsupported re-check interval: ${days} days`);
+    }
+    await ctx.db.patch(userId, { recheckIntervalDays: days, updatedAt: Date.now() });
+
+    // Reschedule the user's saved domains from their last check
+    const saved = await ctx.db
+      .query("savedDomains")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    for (const domain of saved) {
+      await ctx.db.patch(domain._id, { nextCheckAt: domain.checkedAt + recheckIntervalMs(days) });
+    }
+    return { success: true };
+  },
+});
+
+// Internal functions for agent tools
+export const getInternal = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    return await ctx.db.get(userId);
+  },
+});
@@ -0,0 +1,169 @@
+import { v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { DEFAULT_STRATEGIES } from "./generation/strategies";
+import { DEFAULT_VIBE_PROFILES, type VibeProfile, validateVibeProfile } from "./generation/vibes";
+
+const profileArgs = {
+  name: v.string(),
+  description: v.string(),
+  aliases: v.optional(v.array(v.string())),
+  strategyWeights: v.optional(v.record(v.string(), v.number())),
+  prefixes: v.optional(v.array(v.string())),
+  suffixes: v.optional(v.array(v.string())),
+  minLength: v.optional(v.number()),
+  maxLength: v.optional(v.number()),
+  idealLength: v.optional(v.number()),
+  tlds: v.optional(v.array(v.string())),
+};
+
+// List all vibe profiles (the defaults until the table is seeded)
+export const list = query({
+  args: {},
+  handler: async (ctx): Promise<VibeProfile[]> => {
+    return await loadProfiles(ctx);
+  },
+});
+
+// Same, for the generation engine
+export const listInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<VibeProfile[]> => {
+    return await loadProfiles(ctx);
+  },
+});
+
+// Create a vibe profile
+export const create = mutation({
+  args: profileArgs,
+  handler: async (ctx, args) => {
+    // TODO: Get user from auth session
+    return await insertProfile(ctx, args, undefined);
+  },
+});
+
+// Create a vibe profile on behalf of a user (used by the agent tool)
+export const createInternal = internalMutation({
+  args: { ...profileArgs, userId: v.optional(v.id("users")) },
+  handler: async (ctx, { userId, ...args }) => {
+    return await insertProfile(ctx, args, userId);
+  },
+});
+
+// Seed the default vibe profiles (run once during setup)
+export const seedDefaults = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const existing = await ctx.db.query("vibeProfiles").first();
+    if (existing) {
+      // Already seeded
+      return { seeded: false, message: "Vibe profiles already exist" };
+    }
+
+    await insertDefaults(ctx);
+    return { seeded: true, count: DEFAULT_VIBE_PROFILES.length };
+  },
+});
+
+async function loadProfiles(ctx: QueryCtx): Promise<VibeProfile[]> {
+  const rows = await ctx.db.query("vibeProfiles").collect();
+  if (rows.length === 0) {
+    return DEFAULT_VIBE_PROFILES;
+  }
+
+  return rows.map((row) => ({
+    name: row.name,
+    description: row.description,
+    aliases: row.aliases,
+    strategyWeights: row.strategyWeights,
+    prefixes: row.prefixes,
+    suffixes: row.suffixes,
+    minLength: row.minLength,
+    maxLength: row.maxLength,
+    idealLength: row.idealLength,
+    tlds: row.tlds,
+  }));
+}
+
+async function insertProfile(
+  ctx: MutationCtx,
+  args: {
+    name: string;
+    description: string;
+    aliases?: string[];
+    strategyWeights?: Record<string, number>;
+    prefixes?: string[];
+    suffixes?: string[];
+    minLength?: number;
+    maxLength?: number;
+    idealLength?: number;
+    tlds?: string[];
+  },
+  createdBy: Id<"users"> | undefined
+): Promise<
+  | { success: true; profileId: Id<"vibeProfiles">; name: string }
+  | { success: false; errors: string[] }
+> {
+  const profile: VibeProfile = {
+    ...args,
+    name: args.name.trim().toLowerCase(),
+    aliases: (args.aliases ?? []).map((alias) => alias.trim().toLowerCase()),
+    strategyWeights: args.strategyWeights ?? {},
+    prefixes: args.prefixes ?? [],
+    suffixes: args.suffixes ?? [],
+    tlds: args.tlds ?? [],
+  };
+
+  const strategies = await ctx.db.query("ideationStrategies").collect();
+  const strategyNames = (strategies.length > 0 ? strategies : DEFAULT_STRATEGIES).map(
+    (strategy) => strategy.name
+  );
+  const errors = validateVibeProfile(profile, strategyNames);
+
+  const seeded = (await ctx.db.query("vibeProfiles").first()) !== null;
+  const taken = seeded
+    ? await ctx.db
+        .query("vibeProfiles")
+        .withIndex("by_name", (q) => q.eq("name", profile.name))
+        .first()
+    : DEFAULT_VIBE_PROFILES.find((existing) => existing.name === profile.name);
+  if (taken) {
+    errors.push(`A vibe profile named "${profile.name}" already exists`);
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  // A first custom profile shouldn't hide the defaults, which are only a fallback until seeded
+  if (!seeded) {
+    await insertDefaults(ctx);
+  }
+
+  const profileId = await ctx.db.insert("vibeProfiles", {
+    ...profile,
+    isBuiltIn: false,
+    createdBy,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+  return { success: true, profileId, name: profile.name };
+}
+
+async function insertDefaults(ctx: MutationCtx): Promise<void> {
+  for (const profile of DEFAULT_VIBE_PROFILES) {
+    await ctx.db.insert("vibeProfiles", {
+      ...profile,
+      isBuiltIn: true,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  }
+}
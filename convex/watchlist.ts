@@ -0,0 +1,224 @@
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { parseDomain } from "./lib/domainName";
+import { toUnicodeDomain } from "./lib/idn";
+import { isInRedemption, isPendingDelete } from "./registrars/eppStatus";
+import { availabilityStatus } from "./schema";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Registry hiccups shouldn't push the next look out by days
+const UNKNOWN_RETRY_MS = HOUR;
+
+/**
+ * How long to wait before re-checking a watched domain. Far from expiry a weekly look is
+ * plenty; once it lapses into grace, redemption and pendingDelete the name can drop any day,
+ * so the checks tighten down to the cron's own interval.
+ */
+export function nextCheckDelay(
+  expiresAt: number | undefined,
+  registryStatuses: string[] | undefined,
+  now: number
+): number {
+  if (isPendingDelete(registryStatuses) || isInRedemption(registryStatuses)) {
+    return 15 * MINUTE;
+  }
+  if (expiresAt === undefined) {
+    return DAY;
+  }
+
+  const untilExpiry = expiresAt - now;
+  if (untilExpiry <= 0) return HOUR;
+  if (untilExpiry <= 7 * DAY) return 6 * HOUR;
+  if (untilExpiry <= 30 * DAY) return DAY;
+  if (untilExpiry <= 90 * DAY) return 3 * DAY;
+  return 7 * DAY;
+}
+
+// List a user's watched domains, soonest expiry first
+export const listByUser = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const watched = await ctx.db
+      .query("watchedDomains")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    return watched.sort(
+      (a, b) =>
+        (a.expiresAt ?? Number.POSITIVE_INFINITY) - (b.expiresAt ?? Number.POSITIVE_INFINITY)
+    );
+  },
+});
+
+// Start watching a domain (from the UI)
+export const watch = mutation({
+  args: {
+    userId: v.id("users"),
+    domain: v.string(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await addToWatchlist(ctx, args);
+  },
+});
+
+// Stop watching a domain
+export const unwatch = mutation({
+  args: { watchedDomainId: v.id("watchedDomains") },
+  handler: async (ctx, { watchedDomainId }) => {
+    await ctx.db.delete(watchedDomainId);
+  },
+});
+
+// Internal functions for the agent tool and the watchlist cron
+
+export const watchInternal = internalMutation({
+  args: {
+    userId: v.id("users"),
+    domain: v.string(),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await addToWatchlist(ctx, args);
+  },
+});
+
+// Watched domains whose next check is due, most overdue first
+export const dueForCheck = internalQuery({
+  args: { limit: v.number() },
+  handler: async (ctx, { limit }) => {
+    return await ctx.db
+      .query("watchedDomains")
+      .withIndex("by_next_check", (q) => q.lte("nextCheckAt", Date.now()))
+      .take(limit);
+  },
+});
+
+/**
+ * Store a fresh registry answer, schedule the next check and raise a notification
+ * when the domain has just become available or entered pendingDelete
+ */
+export const recordCheck = internalMutation({
+  args: {
+    watchedDomainId: v.id("watchedDomains"),
+    status: availabilityStatus,
+    registryStatuses: v.optional(v.array(v.string())),
+    registrar: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, { watchedDomainId, ...result }) => {
+    const watched = await ctx.db.get(watchedDomainId);
+    if (!watched) {
+      return;
+    }
+
+    const now = Date.now();
+    if (result.status === "unknown") {
+      // Keep the last good answer
+      await ctx.db.patch(watchedDomainId, {
+        lastCheckedAt: now,
+        nextCheckAt: now + UNKNOWN_RETRY_MS,
+      });
+      return;
+    }
+
+    const isFirstCheck = watched.lastCheckedAt === undefined;
+    if (!isFirstCheck) {
+      if (result.status === "available" && watched.status !== "available") {
+        await notify(ctx, watched.userId, watchedDomainId, {
+          kind: "domain_available",
+          domain: watched.domain,
+          message: `${toUnicodeDomain(watched.domain)} is available to register`,
+        });
+      } else if (
+        isPendingDelete(result.registryStatuses) &&
+        !isPendingDelete(watched.registryStatuses)
+      ) {
+        await notify(ctx, watched.userId, watchedDomainId, {
+          kind: "domain_pending_delete",
+          domain: watched.domain,
+          message: `${toUnicodeDomain(watched.domain)} is pending deletion and should drop within days`,
+        });
+      }
+    }
+
+    // An available domain has no registration left to report
+    const registration =
+      result.status === "taken"
+        ? result
+        : { registryStatuses: undefined, registrar: undefined, expiresAt: undefined };
+
+    await ctx.db.patch(watchedDomainId, {
+      status: result.status,
+      registryStatuses: registration.registryStatuses,
+      registrar: registration.registrar,
+      expiresAt: registration.expiresAt,
+      lastCheckedAt: now,
+      nextCheckAt: now + nextCheckDelay(registration.expiresAt, registration.registryStatuses, now),
+    });
+  },
+});
+
+async function addToWatchlist(
+  ctx: MutationCtx,
+  { userId, domain, notes }: { userId: Id<"users">; domain: string; notes?: string }
+): Promise<Id<"watchedDomains">> {
+  const parsed = parseDomain(domain);
+  if (!parsed.ok) {
+    throw new Error(parsed.error.message);
+  }
+  const normalized = parsed.value.domain;
+  const existing = await ctx.db
+    .query("watchedDomains")
+    .withIndex("by_user_domain", (q) => q.eq("userId", userId).eq("domain", normalized))
+    .first();
+
+  if (existing) {
+    if (notes !== undefined) {
+      await ctx.db.patch(existing._id, { notes });
+    }
+    return existing._id;
+  }
+
+  // Due immediately so the first check fills in the expiry date
+  const watchedDomainId = await ctx.db.insert("watchedDomains", {
+    userId,
+    domain: normalized,
+    status: "taken",
+    notes,
+    nextCheckAt: Date.now(),
+    createdAt: Date.now(),
+  });
+  await ctx.scheduler.runAfter(0, internal.actions.checkWatchedDomains, {});
+  return watchedDomainId;
+}
+
+async function notify(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  watchedDomainId: Id<"watchedDomains">,
+  notification: {
+    kind: "domain_available" | "domain_pending_delete";
+    domain: string;
+    message: string;
+  }
+): Promise<void> {
+  await ctx.db.insert("notifications", {
+    userId,
+    watchedDomainId,
+    ...notification,
+    read: false,
+    createdAt: Date.now(),
+  });
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Refresh convex/lib/data/public-suffix-list.json from publicsuffix.org.
+ * Keeps only the ICANN section (real registries, not private subdomain services like
+ * github.io) and stores every rule in ASCII form, the way domains are parsed.
+ *
+ *   npm run update:psl
+ */
+
+import { writeFile } from "node:fs/promises";
+import { domainToASCII } from "node:url";
+
+const SOURCE = "https://publicsuffix.org/list/public_suffix_list.dat";
+const OUTPUT = new URL("../convex/lib/data/public-suffix-list.json", import.meta.url);
+
+const response = await fetch(SOURCE);
+if (!response.ok) {
+  throw new Error(`Fetching ${SOURCE} failed: ${response.status} ${response.statusText}`);
+}
+const text = await response.text();
+
+const begin = text.indexOf("// ===BEGIN ICANN DOMAINS===");
+const end = text.indexOf("// ===END ICANN DOMAINS===");
+if (begin === -1 || end === -1) {
+  throw new Error("ICANN section markers not found - has the list format changed?");
+}
+
+const rules = new Set();
+for (const line of text.slice(begin, end).split("\n")) {
+  const rule = line.trim();
+  if (rule.length === 0 || rule.startsWith("//")) {
+    continue;
+  }
+
+  // "!" (exception) and "*." (wildcard) prefixes stay as they are; the rest is punycoded
+  const prefix = rule.match(/^(!|\*\.)?/)[0];
+  const ascii = domainToASCII(rule.slice(prefix.length));
+  if (ascii === "") {
+    throw new Error(`Can't convert rule to ASCII: ${rule}`);
+  }
+  rules.add(prefix + ascii);
+}
+
+const list = {
+  description: `ICANN section of the Public Suffix List, rules in ASCII form (snapshot of ${SOURCE})`,
+  publication: new Date().toISOString().slice(0, 10),
+  rules: [...rules].sort(),
+};
+await writeFile(OUTPUT, `${JSON.stringify(list, null, 2)}\n`);
+
+console.log(`Wrote ${list.rules.length} rules to ${OUTPUT.pathname}`);
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Refresh convex/registrars/data/rdap-dns.json from IANA's RDAP bootstrap registry (RFC 9224).
+ * The file is stored as IANA publishes it; the RDAP provider picks the first https:// server
+ * listed for each TLD.
+ *
+ *   npm run update:rdap
+ */
+
+import { writeFile } from "node:fs/promises";
+
+const SOURCE = "https://data.iana.org/rdap/dns.json";
+const OUTPUT = new URL("../convex/registrars/data/rdap-dns.json", import.meta.url);
+
+const response = await fetch(SOURCE);
+if (!response.ok) {
+  throw new Error(`Fetching ${SOURCE} failed: ${response.status} ${response.statusText}`);
+}
+const bootstrap = await response.json();
+
+const isStringArray = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+const valid =
+  Array.isArray(bootstrap.services) &&
+  bootstrap.services.every(
+    (service) => Array.isArray(service) && service.length === 2 && service.every(isStringArray)
+  );
+if (!valid) {
+  throw new Error("Unexpected bootstrap shape - services should be [tlds, urls] pairs");
+}
+
+await writeFile(OUTPUT, `${JSON.stringify(bootstrap, null, 2)}\n`);
+
+const tlds = bootstrap.services.reduce((count, [serviceTlds]) => count + serviceTlds.length, 0);
+console.log(
+  `Wrote ${bootstrap.services.length} services (${tlds} TLDs, published ${bootstrap.publication}) to ${OUTPUT.pathname}`
+);
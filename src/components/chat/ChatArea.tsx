@@ -2,6 +2,7 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { Globe } from "lucide-react";
 import { useMutation, useQuery, useAction } from "convex/react";
 import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
 
 import { cn } from "../../lib/utils";
 import { useTheme } from "../../lib/theme-context";
@@ -9,6 +10,7 @@ import { useUser } from "../../lib/user-context";
 import { MessageBubble } from "./MessageBubble";
 import { TypingIndicator } from "./TypingIndicator";
 import { ChatInput } from "./ChatInput";
+import { TldPicker } from "./TldPicker";
 import type { Message, DomainResult } from "../../types/chat";
 
 interface ChatAreaProps {
@@ -21,6 +23,7 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [selectedTlds, setSelectedTlds] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const isCreatingThread = useRef(false); // Track if we're creating a new thread
   const { theme } = useTheme();
@@ -30,6 +33,7 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
   const createThread = useAction(api.threads.create);
   const chat = useAction(api.actions.chat);
   const saveDomain = useMutation(api.domains.save);
+  const recheckDomains = useAction(api.actions.recheckDomains);
 
   // Query messages if we have a thread
   const threadMessages = useQuery(
@@ -81,13 +85,11 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
     if (threadMessages && threadMessages.length > 0) {
       const mapped: Message[] = threadMessages.map((m) => {
         // Extract domain results from toolResults if present
-        let domainResults: DomainResult[] | undefined;
+        let domainCheck: DomainCheckExtract | undefined;
         if (m.toolResults && m.toolResults.length > 0) {
-          const domainToolResult = m.toolResults.find(
-            (tr) => tr.toolCallId === "check-1" || Array.isArray(tr.result)
-          );
-          if (domainToolResult && Array.isArray(domainToolResult.result)) {
-            domainResults = domainToolResult.result as DomainResult[];
+          for (const tr of m.toolResults) {
+            domainCheck = extractDomainCheck(tr.result);
+            if (domainCheck) break;
           }
         }
 
@@ -98,7 +100,8 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
           timestamp: m.createdAt,
           toolCalls: m.toolCalls,
           toolResults: m.toolResults,
-          domainResults,
+          domainResults: domainCheck?.results,
+          domainCheckJobId: domainCheck?.jobId,
         };
       });
       setMessages(mapped);
@@ -106,21 +109,54 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
   }, [threadMessages, isTyping]);
 
   const handleSaveDomain = useCallback(
-    async (domain: string): Promise<void> => {
+    async (result: DomainResult): Promise<void> => {
       if (!userId) return;
 
-      const tld = domain.substring(domain.lastIndexOf("."));
       await saveDomain({
         userId,
-        domain,
-        tld,
-        available: true,
+        domain: result.domain,
+        available: result.status === "available",
+        status: result.status,
+        premium: result.premium,
+        premiumReason: result.premiumReason,
+        price: result.price,
+        pricing: result.pricing,
+        simulated: result.simulated,
         projectIdea: input || "Domain search",
       });
     },
     [userId, saveDomain, input]
   );
 
+  // Re-check domains that came back "unknown" and swap the fresh answers in
+  const handleRetryDomains = useCallback(
+    async (domains: string[], jobId?: string): Promise<void> => {
+      const fresh: DomainResult[] = await recheckDomains({
+        domains,
+        jobId: jobId as Id<"domainCheckJobs"> | undefined,
+        threadId: activeThreadId ?? undefined,
+      });
+      // Job results are reactive, so only inline results need patching locally
+      if (jobId) return;
+
+      const byDomain = new Map(fresh.map((result) => [result.domain, result]));
+      setMessages((prev) =>
+        prev.map((message) => {
+          if (!message.domainResults?.some((result) => byDomain.has(result.domain))) {
+            return message;
+          }
+          return {
+            ...message,
+            domainResults: message.domainResults.map(
+              (result) => byDomain.get(result.domain) ?? result
+            ),
+          };
+        })
+      );
+    },
+    [recheckDomains, activeThreadId]
+  );
+
   const handleSubmit = useCallback(async (): Promise<void> => {
     if (!input.trim() || !userId) return;
 
@@ -156,23 +192,19 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
       const response = await chat({
         threadId,
         message: projectIdea,
+        tlds: selectedTlds.length > 0 ? selectedTlds : undefined,
       });
 
       // Extract domain results from tool results if present
-      // Look for checkDomainAvailability results which have { domain, available, ... } format
-      let domainResults: DomainResult[] | undefined;
+      // Look for checkDomainAvailability results which have { domain, status, ... } format
+      let domainCheck: DomainCheckExtract | undefined;
       if (response.toolResults && response.toolResults.length > 0) {
         for (const tr of response.toolResults) {
           const toolResult = tr as { toolName?: string; result?: unknown };
 
-          // Check if it's from checkDomainAvailability (has domain/available fields)
-          if (Array.isArray(toolResult.result) && toolResult.result.length > 0) {
-            const firstItem = toolResult.result[0] as Record<string, unknown>;
-            if (firstItem && typeof firstItem === "object" && "domain" in firstItem && "available" in firstItem) {
-              domainResults = toolResult.result as DomainResult[];
-              break;
-            }
-          }
+          // Check if it's from checkDomainAvailability (has domain/status fields)
+          domainCheck = extractDomainCheck(toolResult.result);
+          if (domainCheck) break;
         }
       }
 
@@ -184,7 +216,8 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
         timestamp: Date.now(),
         toolCalls: response.toolCalls,
         toolResults: response.toolResults,
-        domainResults,
+        domainResults: domainCheck?.results,
+        domainCheckJobId: domainCheck?.jobId,
       };
       setMessages((prev) => [...prev, assistantMessage]);
       setIsTyping(false);
@@ -232,7 +265,7 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
       };
       setMessages((prev) => [...prev, errorMessage]);
     }
-  }, [input, userId, activeThreadId, createThread, chat, onNewConversation]);
+  }, [input, userId, activeThreadId, selectedTlds, createThread, chat, onNewConversation]);
 
   const handleSuggestionClick = useCallback((suggestion: string): void => {
     setInput(suggestion);
@@ -266,7 +299,12 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
         ) : (
           <div className="mx-auto max-w-3xl px-4 py-6">
             {messages.map((message) => (
-              <MessageBubble key={message.id} message={message} onSaveDomain={handleSaveDomain} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                onSaveDomain={handleSaveDomain}
+                onRetryDomains={handleRetryDomains}
+              />
             ))}
             {isTyping && <TypingIndicator />}
             <div ref={messagesEndRef} />
@@ -283,11 +321,51 @@ export function ChatArea({ conversationId, onNewConversation }: ChatAreaProps):
         suggestions={suggestions}
         showSuggestions={isNewChat}
         onSuggestionClick={handleSuggestionClick}
+        toolbar={
+          <TldPicker selected={selectedTlds} onChange={setSelectedTlds} disabled={isTyping} />
+        }
       />
     </div>
   );
 }
 
+interface DomainCheckExtract {
+  results: DomainResult[];
+  // Background job checking the rest of a large candidate list
+  jobId?: string;
+}
+
+/**
+ * Pull domain results out of a checkDomainAvailability tool result.
+ * Accepts the { results, stages, job } report as well as a bare results array.
+ */
+function extractDomainCheck(result: unknown): DomainCheckExtract | undefined {
+  const report =
+    result && typeof result === "object" && "results" in result
+      ? (result as { results: unknown; job?: { jobId?: string } })
+      : { results: result };
+
+  const items = report.results;
+  if (!Array.isArray(items) || items.length === 0) {
+    return undefined;
+  }
+
+  const firstItem = items[0] as Record<string, unknown>;
+  if (
+    firstItem &&
+    typeof firstItem === "object" &&
+    "domain" in firstItem &&
+    "status" in firstItem
+  ) {
+    return {
+      results: items as DomainResult[],
+      jobId: "job" in report ? report.job?.jobId : undefined,
+    };
+  }
+
+  return undefined;
+}
+
 interface WelcomeScreenProps {
   onSuggestionClick: (suggestion: string) => void;
   theme: string;
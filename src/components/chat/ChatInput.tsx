@@ -1,4 +1,4 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, type ReactNode } from "react";
 import { Send, Sparkles } from "lucide-react";
 import { cn } from "../../lib/utils";
 
@@ -11,6 +11,8 @@ interface ChatInputProps {
   suggestions?: string[];
   showSuggestions?: boolean;
   onSuggestionClick?: (suggestion: string) => void;
+  // Controls shown above the text box (e.g. the TLD picker)
+  toolbar?: ReactNode;
 }
 
 export function ChatInput({
@@ -22,6 +24,7 @@ export function ChatInput({
   suggestions = [],
   showSuggestions = false,
   onSuggestionClick,
+  toolbar,
 }: ChatInputProps): JSX.Element {
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -75,6 +78,8 @@ export function ChatInput({
           </div>
         )}
 
+        {toolbar}
+
         {/* Input form */}
         <form onSubmit={handleSubmit} className="relative">
           <textarea
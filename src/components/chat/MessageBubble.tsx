@@ -1,13 +1,40 @@
-import { Globe, Check, X, ExternalLink, Bookmark, Loader2 } from "lucide-react";
+import { useState } from "react";
+import {
+  Globe,
+  Check,
+  X,
+  Scale,
+  Bookmark,
+  Loader2,
+  HelpCircle,
+  Lock,
+  RefreshCw,
+} from "lucide-react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
 import { cn } from "../../lib/utils";
+import {
+  DomainName,
+  PremiumBadge,
+  PriceComparisonDrawer,
+  PriceSummary,
+  SimulatedBadge,
+} from "../domains";
 import type { Message, DomainResult } from "../../types/chat";
 
 interface MessageBubbleProps {
   message: Message;
-  onSaveDomain?: (domain: string) => void;
+  onSaveDomain?: (result: DomainResult) => void;
+  // jobId is set when the domains came from a background check job
+  onRetryDomains?: (domains: string[], jobId?: string) => Promise<void>;
 }
 
-export function MessageBubble({ message, onSaveDomain }: MessageBubbleProps): JSX.Element {
+export function MessageBubble({
+  message,
+  onSaveDomain,
+  onRetryDomains,
+}: MessageBubbleProps): JSX.Element {
   const isUser = message.role === "user";
   const isStreaming = message.streaming;
 
@@ -51,6 +78,16 @@ export function MessageBubble({ message, onSaveDomain }: MessageBubbleProps): JS
             <DomainResultsList
               results={message.domainResults}
               onSave={onSaveDomain}
+              onRetry={onRetryDomains}
+            />
+          )}
+
+          {/* Background check of the remaining candidates */}
+          {message.domainCheckJobId && (
+            <DomainCheckJobProgress
+              jobId={message.domainCheckJobId as Id<"domainCheckJobs">}
+              onSave={onSaveDomain}
+              onRetry={onRetryDomains}
             />
           )}
 
@@ -67,32 +104,149 @@ export function MessageBubble({ message, onSaveDomain }: MessageBubbleProps): JS
   );
 }
 
+interface DomainCheckJobProgressProps {
+  jobId: Id<"domainCheckJobs">;
+  onSave?: (result: DomainResult) => void;
+  onRetry?: (domains: string[], jobId?: string) => Promise<void>;
+}
+
+function DomainCheckJobProgress({
+  jobId,
+  onSave,
+  onRetry,
+}: DomainCheckJobProgressProps): JSX.Element | null {
+  // Both queries are reactive, so results stream in as the worker records them
+  const job = useQuery(api.domainCheckJobs.get, { jobId });
+  const results = useQuery(api.domainCheckJobs.listResults, { jobId });
+
+  if (!job) return null;
+
+  const percent = job.total > 0 ? Math.round((job.completed / job.total) * 100) : 100;
+  // Only surface what's actionable: available names and ones we couldn't verify
+  const shown = (results ?? []).filter(
+    (result: DomainResult) => result.status === "available" || result.status === "unknown"
+  );
+
+  return (
+    <div className="rounded-lg border border-border bg-background/50 p-3">
+      <div className="mb-2 flex items-center justify-between text-xs text-text-secondary">
+        <span className="flex items-center gap-2">
+          {(job.status === "queued" || job.status === "running") && (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          )}
+          {job.status === "failed"
+            ? `Background check failed: ${job.errorMessage ?? "unknown error"}`
+            : `Checked ${job.completed} of ${job.total} more domains`}
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-border">
+        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      {shown.length > 0 && (
+        <DomainResultsList
+          results={shown}
+          onSave={onSave}
+          onRetry={onRetry && ((domains) => onRetry(domains, jobId))}
+        />
+      )}
+    </div>
+  );
+}
+
 interface DomainResultsListProps {
   results: DomainResult[];
-  onSave?: (domain: string) => void;
+  onSave?: (result: DomainResult) => void;
+  onRetry?: (domains: string[]) => Promise<void>;
 }
 
-function DomainResultsList({ results, onSave }: DomainResultsListProps): JSX.Element {
+function DomainResultsList({ results, onSave, onRetry }: DomainResultsListProps): JSX.Element {
+  const verified = results.filter((result) => result.status !== "unknown");
+  const unknown = results.filter((result) => result.status === "unknown");
+
   return (
     <div className="mt-3 space-y-2">
-      {results.map((result) => (
+      {verified.map((result) => (
         <DomainResultCard
           key={result.domain}
           result={result}
           onSave={onSave}
         />
       ))}
+      {unknown.length > 0 && <UnknownDomainsGroup results={unknown} onRetry={onRetry} />}
+    </div>
+  );
+}
+
+interface UnknownDomainsGroupProps {
+  results: DomainResult[];
+  onRetry?: (domains: string[]) => Promise<void>;
+}
+
+function UnknownDomainsGroup({ results, onRetry }: UnknownDomainsGroupProps): JSX.Element {
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const handleRetry = async (): Promise<void> => {
+    if (!onRetry) return;
+    setIsRetrying(true);
+    try {
+      await onRetry(results.map((result) => result.domain));
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-dashed border-warning/40 bg-warning/5 p-3">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-xs font-medium text-warning">
+          <HelpCircle className="h-3.5 w-3.5" />
+          Couldn't verify {results.length === 1 ? "this domain" : `${results.length} domains`}
+        </span>
+        {onRetry && (
+          <button
+            type="button"
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className={cn(
+              "flex items-center gap-1 rounded-lg px-2 py-1 text-xs",
+              "text-text-secondary transition-colors",
+              "hover:bg-primary/10 hover:text-primary disabled:opacity-50"
+            )}
+          >
+            <RefreshCw className={cn("h-3 w-3", isRetrying && "animate-spin")} />
+            Retry
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {results.map((result) => (
+          <li
+            key={result.domain}
+            className="flex items-center justify-between gap-3 text-sm"
+            title={result.errorMessage}
+          >
+            <DomainName domain={result.domain} className="font-medium text-text" />
+            <span className="truncate text-xs text-text-secondary">
+              {result.errorMessage ?? "No answer from any provider"}
+            </span>
+          </li>
+        ))}
+      </ul>
     </div>
   );
 }
 
 interface DomainResultCardProps {
   result: DomainResult;
-  onSave?: (domain: string) => void;
+  onSave?: (result: DomainResult) => void;
 }
 
 function DomainResultCard({ result, onSave }: DomainResultCardProps): JSX.Element {
-  const { domain, available, premium, price } = result;
+  const { domain, status, premium, premiumReason, price, pricing, definitive, provider, simulated } =
+    result;
+  const available = status === "available";
+  const [isComparing, setIsComparing] = useState(false);
 
   return (
     <div
@@ -109,11 +263,17 @@ function DomainResultCard({ result, onSave }: DomainResultCardProps): JSX.Elemen
         <div
           className={cn(
             "flex h-6 w-6 items-center justify-center rounded-full",
-            available ? "bg-success/20 text-success" : "bg-error/20 text-error"
+            available
+              ? "bg-success/20 text-success"
+              : status === "reserved"
+                ? "bg-warning/20 text-warning"
+                : "bg-error/20 text-error"
           )}
         >
           {available ? (
             <Check className="h-3.5 w-3.5" />
+          ) : status === "reserved" ? (
+            <Lock className="h-3.5 w-3.5" />
           ) : (
             <X className="h-3.5 w-3.5" />
           )}
@@ -121,18 +281,42 @@ function DomainResultCard({ result, onSave }: DomainResultCardProps): JSX.Elemen
 
         {/* Domain name */}
         <div>
-          <p className="font-medium text-text">{domain}</p>
+          <p className="flex items-center gap-2 font-medium text-text">
+            <DomainName domain={domain} />
+            {simulated && <SimulatedBadge />}
+          </p>
           <p className="text-xs text-text-secondary">
             {available ? (
-              premium && price ? (
-                <span className="text-warning">Premium: ${price.toLocaleString()}</span>
+              premium ? (
+                <>
+                  <PremiumBadge reason={premiumReason} />
+                  {!pricing && price && (
+                    <span className="ml-1 text-warning">${price.toLocaleString()}</span>
+                  )}
+                </>
+              ) : definitive === false ? (
+                <span
+                  className="text-success"
+                  title="No registry record found - confirm with a registrar"
+                >
+                  Likely available
+                </span>
               ) : (
                 <span className="text-success">Available</span>
               )
+            ) : status === "reserved" ? (
+              <span
+                className="text-warning"
+                title="Held by the registry - not open for registration"
+              >
+                Reserved
+              </span>
             ) : (
               <span className="text-error">Taken</span>
             )}
+            {provider && !simulated && <span className="ml-1">· via {provider}</span>}
           </p>
+          {available && pricing && <PriceSummary pricing={pricing} />}
         </div>
       </div>
 
@@ -141,7 +325,7 @@ function DomainResultCard({ result, onSave }: DomainResultCardProps): JSX.Elemen
         <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
           <button
             type="button"
-            onClick={() => onSave?.(domain)}
+            onClick={() => onSave?.(result)}
             className={cn(
               "flex h-8 w-8 items-center justify-center rounded-lg",
               "text-text-secondary transition-colors",
@@ -151,21 +335,24 @@ function DomainResultCard({ result, onSave }: DomainResultCardProps): JSX.Elemen
           >
             <Bookmark className="h-4 w-4" />
           </button>
-          <a
-            href={`https://www.namecheap.com/domains/registration/results/?domain=${domain}`}
-            target="_blank"
-            rel="noopener noreferrer"
+          <button
+            type="button"
+            onClick={() => setIsComparing(true)}
             className={cn(
               "flex h-8 w-8 items-center justify-center rounded-lg",
               "text-text-secondary transition-colors",
               "hover:bg-primary/10 hover:text-primary"
             )}
-            title="View on registrar"
+            title="Compare registrar prices"
           >
-            <ExternalLink className="h-4 w-4" />
-          </a>
+            <Scale className="h-4 w-4" />
+          </button>
         </div>
       )}
+
+      {isComparing && (
+        <PriceComparisonDrawer domain={domain} onClose={() => setIsComparing(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { ChevronDown, Globe, Lock, MapPin, X } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import {
+  PRICE_BAND_LABELS,
+  RESTRICTION_LABELS,
+  type TldCatalogEntry,
+} from "../../../convex/lib/tldCatalog";
+
+import { cn } from "../../lib/utils";
+
+interface TldPickerProps {
+  selected: string[];
+  onChange: (tlds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chips for the enabled TLDs in the catalog; the picked ones are sent along with each message
+ */
+export function TldPicker({ selected, onChange, disabled = false }: TldPickerProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const catalog = useQuery(api.tldCatalog.listEnabled);
+  const entries: TldCatalogEntry[] = catalog ?? [];
+
+  const toggle = (tld: string): void => {
+    onChange(selected.includes(tld) ? selected.filter((t) => t !== tld) : [...selected, tld]);
+  };
+
+  const summary =
+    selected.length === 0
+      ? "Any TLD"
+      : selected.length <= 3
+        ? selected.join(", ")
+        : `${selected.slice(0, 3).join(", ")} +${selected.length - 3}`;
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className={cn(
+            "flex items-center gap-1.5 rounded-full border border-border px-3 py-1 text-xs",
+            "text-text-secondary transition-all hover:border-primary hover:text-primary",
+            "disabled:cursor-not-allowed disabled:opacity-50",
+            selected.length > 0 && "border-primary/50 text-primary"
+          )}
+        >
+          <Globe className="h-3 w-3" />
+          {summary}
+          <ChevronDown className={cn("h-3 w-3 transition-transform", isOpen && "rotate-180")} />
+        </button>
+        {selected.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="flex items-center gap-0.5 text-xs text-text-secondary hover:text-text"
+          >
+            <X className="h-3 w-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {entries.map((tld) => (
+            <TldChip
+              key={tld.tld}
+              tld={tld}
+              isSelected={selected.includes(tld.tld)}
+              onToggle={() => toggle(tld.tld)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TldChip({
+  tld,
+  isSelected,
+  onToggle,
+}: {
+  tld: TldCatalogEntry;
+  isSelected: boolean;
+  onToggle: () => void;
+}): JSX.Element {
+  const restrictions = tld.restrictions.map((restriction) => RESTRICTION_LABELS[restriction]);
+  const title = [tld.categories.join(", "), ...restrictions, tld.restrictionNote]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      title={title}
+      className={cn(
+        "flex items-center gap-1 rounded-md border px-2 py-0.5 font-mono text-xs transition-all",
+        isSelected
+          ? "border-primary bg-primary/10 text-primary"
+          : "border-border text-text-secondary hover:border-primary hover:text-text"
+      )}
+    >
+      {tld.tld}
+      <span className="font-sans text-[10px] opacity-70">{PRICE_BAND_LABELS[tld.priceBand]}</span>
+      {tld.restrictions.includes("hsts_preload") && <Lock className="h-2.5 w-2.5" />}
+      {tld.restrictions.includes("local_presence") && <MapPin className="h-2.5 w-2.5" />}
+    </button>
+  );
+}
@@ -2,4 +2,5 @@ export { ChatArea } from "./ChatArea";
 export { ChatInput } from "./ChatInput";
 export { MessageBubble } from "./MessageBubble";
 export { MessageList } from "./MessageList";
+export { TldPicker } from "./TldPicker";
 export { TypingIndicator } from "./TypingIndicator";
@@ -0,0 +1,28 @@
+import { toUnicodeDomain } from "../../../convex/lib/idn";
+import { cn } from "../../lib/utils";
+
+interface DomainNameProps {
+  // ASCII form as stored and checked ("xn--mnchen-3ya.de")
+  domain: string;
+  className?: string;
+}
+
+/**
+ * Shows internationalized domains in Unicode, with the punycode form on hover
+ */
+export function DomainName({ domain, className }: DomainNameProps): JSX.Element {
+  const unicode = toUnicodeDomain(domain);
+  const isIdn = unicode !== domain;
+
+  return (
+    <span
+      className={cn(
+        isIdn && "cursor-help underline decoration-dotted underline-offset-2",
+        className
+      )}
+      title={isIdn ? `Registered as ${domain}` : undefined}
+    >
+      {unicode}
+    </span>
+  );
+}
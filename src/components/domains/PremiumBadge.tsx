@@ -0,0 +1,42 @@
+import { Sparkles } from "lucide-react";
+import { cn } from "../../lib/utils";
+import type { PremiumReason } from "../../types/chat";
+
+const PREMIUM_LABELS: Record<PremiumReason, { label: string; description: string }> = {
+  registry_premium: {
+    label: "Registry premium",
+    description: "The registry prices this name in its premium tier, often including renewals",
+  },
+  aftermarket: {
+    label: "Aftermarket",
+    description: "Already registered, but listed for resale by its owner",
+  },
+  price_class: {
+    label: "Premium price",
+    description: "Quoted well above this TLD's usual price",
+  },
+};
+
+interface PremiumBadgeProps {
+  // Older results carry no reason; they still get a generic badge
+  reason?: PremiumReason;
+  className?: string;
+}
+
+export function PremiumBadge({ reason, className }: PremiumBadgeProps): JSX.Element {
+  const info = reason ? PREMIUM_LABELS[reason] : undefined;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full bg-warning/10 px-2 py-0.5",
+        "text-xs font-medium text-warning",
+        className
+      )}
+      title={info?.description}
+    >
+      <Sparkles className="h-3 w-3" />
+      {info?.label ?? "Premium"}
+    </span>
+  );
+}
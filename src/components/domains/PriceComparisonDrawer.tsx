@@ -0,0 +1,174 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { useAction } from "convex/react";
+import { AlertCircle, ExternalLink, Loader2, Trophy, X } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import type { PriceComparison } from "../../../convex/registrars/types";
+import { formatMoney } from "../../../convex/lib/currency";
+import { cn } from "../../lib/utils";
+import { useUser } from "../../lib/user-context";
+import { DomainName } from "./DomainName";
+import { PriceSummary } from "./PriceSummary";
+import { SimulatedBadge } from "./SimulatedBadge";
+
+interface PriceComparisonDrawerProps {
+  domain: string;
+  onClose: () => void;
+}
+
+/**
+ * Slide-over listing every registrar's price for a domain, cheapest first
+ */
+export function PriceComparisonDrawer({
+  domain,
+  onClose,
+}: PriceComparisonDrawerProps): JSX.Element {
+  const { displayCurrency } = useUser();
+  const compareDomainPrices = useAction(api.actions.compareDomainPrices);
+  const [comparison, setComparison] = useState<PriceComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const titleId = useId();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Focus starts on the close button so the keyboard can reach it; Escape closes the drawer
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+
+    compareDomainPrices({ domain, currency: displayCurrency })
+      .then((result: PriceComparison) => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch((err: unknown) => {
+        console.error("Failed to compare prices:", err);
+        if (!cancelled) setError("Couldn't fetch prices. Please try again.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [domain, displayCurrency, compareDomainPrices]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <button
+        type="button"
+        aria-label="Close price comparison"
+        tabIndex={-1}
+        className="absolute inset-0 cursor-default bg-black/50"
+        onClick={onClose}
+      />
+      <dialog
+        open
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="relative m-0 ml-auto flex h-full max-h-none w-full max-w-md flex-col bg-surface p-0 text-text shadow-2xl"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-border px-6 py-4">
+          <div className="min-w-0">
+            <h2 id={titleId} className="truncate text-lg font-semibold text-text">
+              <DomainName domain={domain} />
+            </h2>
+            <p className="text-xs text-text-secondary">Registrar price comparison</p>
+          </div>
+          <button
+            ref={closeButtonRef}
+            type="button"
+            aria-label="Close price comparison"
+            onClick={onClose}
+            className="rounded-lg p-1 text-text-secondary hover:bg-background hover:text-text"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Quotes */}
+        <div className="flex-1 space-y-3 overflow-y-auto p-6">
+          {error ? (
+            <div className="flex items-center gap-2 rounded-lg bg-error/10 p-3 text-sm text-error">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : !comparison ? (
+            <div className="flex items-center gap-2 text-sm text-text-secondary">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Asking registrars...
+            </div>
+          ) : comparison.quotes.length === 0 ? (
+            <p className="text-sm text-text-secondary">No registrar could quote this domain.</p>
+          ) : (
+            comparison.quotes.map((quote) => {
+              const isCheapest = quote.provider === comparison.cheapest?.provider;
+
+              return (
+                <div
+                  key={quote.provider}
+                  className={cn(
+                    "rounded-xl border p-4",
+                    isCheapest ? "border-success/40 bg-success/5" : "border-border"
+                  )}
+                >
+                  <div className="mb-1 flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 font-medium capitalize text-text">
+                      {quote.provider}
+                      {quote.simulated && <SimulatedBadge />}
+                      {isCheapest && (
+                        <span className="flex items-center gap-1 rounded-full bg-success/10 px-2 py-0.5 text-xs text-success">
+                          <Trophy className="h-3 w-3" /> Cheapest
+                        </span>
+                      )}
+                    </span>
+                    {quote.totalCost !== undefined && (
+                      <span className="text-sm font-semibold text-text">
+                        {formatMoney(quote.totalCost, comparison.currency)}
+                        <span className="ml-1 text-xs font-normal text-text-secondary">
+                          / {comparison.years} yrs
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                  <PriceSummary pricing={quote.pricing} />
+                  {quote.registrationUrl && (
+                    <a
+                      href={quote.registrationUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+                    >
+                      Register at {quote.provider}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          {comparison && comparison.failures.length > 0 && (
+            <p className="text-xs text-text-secondary">
+              No quote from{" "}
+              {comparison.failures
+                .map((failure) => `${failure.provider} (${failure.errorMessage})`)
+                .join(", ")}
+            </p>
+          )}
+        </div>
+      </dialog>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { cn } from "../../lib/utils";
+import { useUser } from "../../lib/user-context";
+import { EXCHANGE_RATES_AS_OF, formatMoney } from "../../../convex/lib/currency";
+import { convertPricing, multiYearCost } from "../../../convex/lib/pricing";
+import type { DomainPricing } from "../../types/chat";
+
+// Horizon for the "true cost" figure - long enough for renewal pricing to show
+const COST_HORIZON_YEARS = 3;
+
+interface PriceSummaryProps {
+  pricing: DomainPricing;
+  className?: string;
+}
+
+/**
+ * First-year, renewal and transfer prices in the user's display currency,
+ * plus what the name costs to hold for a few years.
+ */
+export function PriceSummary({ pricing, className }: PriceSummaryProps): JSX.Element | null {
+  const { displayCurrency } = useUser();
+
+  // Fall back to the registrar's currency if we have no rate for it
+  const converted = convertPricing(pricing, displayCurrency) ?? pricing;
+  const isConverted = converted.currency !== pricing.currency.toUpperCase();
+  const format = (amount: number): string =>
+    `${isConverted ? "≈" : ""}${formatMoney(amount, converted.currency)}`;
+
+  const totalCost = multiYearCost(converted, COST_HORIZON_YEARS);
+  const parts = [
+    converted.registration !== undefined && `${format(converted.registration)} first year`,
+    converted.renewal !== undefined && `${format(converted.renewal)}/yr renewal`,
+    converted.transfer !== undefined && `${format(converted.transfer)} transfer`,
+  ].filter((part): part is string => Boolean(part));
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return (
+    <p
+      className={cn("text-xs text-text-secondary", className)}
+      title={
+        isConverted
+          ? `Quoted in ${pricing.currency}, converted at ${EXCHANGE_RATES_AS_OF} rates`
+          : undefined
+      }
+    >
+      {parts.join(" · ")}
+      {totalCost !== undefined && converted.renewal !== undefined && (
+        <span className="ml-1 font-medium text-text">
+          ({format(totalCost)} over {COST_HORIZON_YEARS} yrs)
+        </span>
+      )}
+    </p>
+  );
+}
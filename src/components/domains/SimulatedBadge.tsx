@@ -0,0 +1,21 @@
+import { FlaskConical } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+/**
+ * Marks answers made up by the mock provider so they are never mistaken for real ones
+ */
+export function SimulatedBadge({ className }: { className?: string }): JSX.Element {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full bg-border px-2 py-0.5",
+        "text-xs font-medium text-text-secondary",
+        className
+      )}
+      title="Simulated by the offline mock provider - not a real registry or registrar answer"
+    >
+      <FlaskConical className="h-3 w-3" />
+      Simulated
+    </span>
+  );
+}
@@ -0,0 +1,5 @@
+export { DomainName } from "./DomainName";
+export { PremiumBadge } from "./PremiumBadge";
+export { PriceComparisonDrawer } from "./PriceComparisonDrawer";
+export { PriceSummary } from "./PriceSummary";
+export { SimulatedBadge } from "./SimulatedBadge";
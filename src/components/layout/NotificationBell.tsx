@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { Bell, Check, Hourglass } from "lucide-react";
+import { api } from "../../../convex/_generated/api";
+import type { Doc } from "../../../convex/_generated/dataModel";
+
+import { cn } from "../../lib/utils";
+import { useUser } from "../../lib/user-context";
+
+/**
+ * Bell with an unread count; opening it lists recent drop alerts and marks them read
+ */
+export function NotificationBell({ className }: { className?: string }): JSX.Element {
+  const { userId } = useUser();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const notifications = useQuery(api.notifications.listByUser, userId ? { userId } : "skip");
+  const unreadCount = useQuery(api.notifications.unreadCount, userId ? { userId } : "skip");
+  const markAllRead = useMutation(api.notifications.markAllRead);
+
+  const handleToggle = (): void => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening && userId && unreadCount) {
+      markAllRead({ userId }).catch((err) => {
+        console.error("Failed to mark notifications read:", err);
+      });
+    }
+  };
+
+  const items: Doc<"notifications">[] = notifications ?? [];
+
+  return (
+    <div className={cn("relative", className)}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative rounded-default p-1.5 text-text-secondary hover:bg-background hover:text-text"
+        title="Notifications"
+      >
+        <Bell className="h-4 w-4" />
+        {!!unreadCount && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-white">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-50 mt-2 w-72 rounded-xl border border-border bg-surface shadow-lg">
+          <div className="border-b border-border px-4 py-2 text-sm font-medium text-text">
+            Notifications
+          </div>
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-text-secondary">
+              Nothing yet. Ask DomainBot to watch a taken domain and you'll hear when it drops.
+            </p>
+          ) : (
+            <ul className="max-h-80 divide-y divide-border overflow-y-auto">
+              {items.map((notification) => (
+                <li key={notification._id} className="flex gap-2 px-4 py-3">
+                  {notification.kind === "domain_available" ? (
+                    <Check className="mt-0.5 h-4 w-4 flex-shrink-0 text-success" />
+                  ) : (
+                    <Hourglass className="mt-0.5 h-4 w-4 flex-shrink-0 text-warning" />
+                  )}
+                  <div className="min-w-0">
+                    <p
+                      className={cn(
+                        "text-sm",
+                        notification.read ? "text-text-secondary" : "text-text"
+                      )}
+                    >
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-text-secondary">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
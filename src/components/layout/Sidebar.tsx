@@ -7,6 +7,7 @@ import {
   Settings,
   ChevronLeft,
   ChevronRight,
+  Coins,
 } from "lucide-react";
 import { useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
@@ -14,6 +15,8 @@ import { api } from "../../../convex/_generated/api";
 import { cn } from "../../lib/utils";
 import { useTheme } from "../../lib/theme-context";
 import { useUser } from "../../lib/user-context";
+import { SUPPORTED_CURRENCIES } from "../../../convex/lib/currency";
+import { NotificationBell } from "./NotificationBell";
 
 interface Conversation {
   id: string;
@@ -38,7 +41,7 @@ export function Sidebar({
   onToggleCollapse,
 }: SidebarProps): JSX.Element {
   const { theme, setTheme, themes } = useTheme();
-  const { userId } = useUser();
+  const { userId, displayCurrency, setDisplayCurrency } = useUser();
 
   // Fetch real conversations from Convex
   const threads = useQuery(
@@ -78,6 +81,8 @@ export function Sidebar({
             <Plus className="h-5 w-5" />
           </button>
 
+          <NotificationBell />
+
           <div className="my-2 h-px w-8 bg-border" />
 
           <Link
@@ -120,13 +125,16 @@ export function Sidebar({
       {/* Header */}
       <div className="flex h-14 items-center justify-between border-b border-border px-4">
         <span className="font-semibold text-text">Conversations</span>
-        <button
-          type="button"
-          onClick={onToggleCollapse}
-          className="rounded-default p-1.5 text-text-secondary hover:bg-background hover:text-text"
-        >
-          <ChevronLeft className="h-4 w-4" />
-        </button>
+        <div className="flex items-center gap-1">
+          <NotificationBell />
+          <button
+            type="button"
+            onClick={onToggleCollapse}
+            className="rounded-default p-1.5 text-text-secondary hover:bg-background hover:text-text"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+        </div>
       </div>
 
       {/* New Chat Button */}
@@ -232,6 +240,28 @@ export function Sidebar({
             <Settings className="h-4 w-4" />
             <span>Theme: {themes.find((t) => t.slug === theme)?.name}</span>
           </button>
+          <label
+            className={cn(
+              "flex items-center gap-2 rounded-default px-2 py-2",
+              "text-sm text-text-secondary transition-colors",
+              "hover:bg-background hover:text-text"
+            )}
+          >
+            <Coins className="h-4 w-4" />
+            <span>Prices in</span>
+            <select
+              value={displayCurrency}
+              onChange={(e) => setDisplayCurrency(e.target.value)}
+              disabled={!userId}
+              className="ml-auto rounded-default border border-border bg-surface px-1.5 py-0.5 text-xs text-text"
+            >
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
       </div>
     </aside>
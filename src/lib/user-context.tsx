@@ -1,11 +1,15 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { DEFAULT_CURRENCY } from "../../convex/lib/currency";
 
 interface UserContextValue {
   userId: Id<"users"> | null;
   isLoading: boolean;
+  // ISO 4217 code registrar prices are converted to for display
+  displayCurrency: string;
+  setDisplayCurrency: (currency: string) => void;
 }
 
 const UserContext = createContext<UserContextValue | null>(null);
@@ -21,6 +25,19 @@ export function UserProvider({ children }: { children: ReactNode }): JSX.Element
 
   // Get or create anonymous user
   const getOrCreateUser = useMutation(api.users.getOrCreateAnonymous);
+  const updateDisplayCurrency = useMutation(api.users.updateDisplayCurrency);
+  const user = useQuery(api.users.getById, userId ? { userId } : "skip");
+  const displayCurrency: string = user?.displayCurrency ?? DEFAULT_CURRENCY;
+
+  const setDisplayCurrency = useCallback(
+    (currency: string): void => {
+      if (!userId) return;
+      updateDisplayCurrency({ userId, currency }).catch((err) => {
+        console.error("Failed to update display currency:", err);
+      });
+    },
+    [userId, updateDisplayCurrency]
+  );
 
   useEffect(() => {
     // Check localStorage for existing anonymous ID
@@ -51,7 +68,7 @@ export function UserProvider({ children }: { children: ReactNode }): JSX.Element
   }, [anonymousId, getOrCreateUser]);
 
   return (
-    <UserContext.Provider value={{ userId, isLoading }}>
+    <UserContext.Provider value={{ userId, isLoading, displayCurrency, setDisplayCurrency }}>
       {children}
     </UserContext.Provider>
   );
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { extractTld, isValidDomain } from "./utils";
+
+describe("extractTld", () => {
+  it.each([
+    ["example.com", ".com"],
+    ["example.co.uk", ".co.uk"],
+    ["shop.example.com.au", ".com.au"],
+    ["münchen.de", ".de"],
+    ["localhost", ""],
+  ])("%s -> %j", (domain, tld) => {
+    expect(extractTld(domain)).toBe(tld);
+  });
+});
+
+describe("isValidDomain", () => {
+  it.each([
+    ["example.co.uk", true],
+    ["münchen.de", true],
+    ["co.uk", false],
+    ["example", false],
+    ["-bad.com", false],
+  ])("%s -> %s", (domain, valid) => {
+    expect(isValidDomain(domain)).toBe(valid);
+  });
+});
@@ -1,4 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
+import { parseDomain } from "../../convex/lib/domainName";
+import { toAsciiDomain } from "../../convex/lib/idn";
+import { getPublicSuffix } from "../../convex/lib/publicSuffix";
 
 /**
  * Merge class names with clsx
@@ -42,17 +45,16 @@ export function formatRelativeTime(date: Date | number): string {
 }
 
 /**
- * Extract TLD from a domain
+ * Extract the public suffix from a domain (".co.uk" for "example.co.uk"), in ASCII form
  */
 export function extractTld(domain: string): string {
-  const parts = domain.split(".");
-  return parts.length > 1 ? `.${parts[parts.length - 1]}` : "";
+  const hostname = toAsciiDomain(domain.trim());
+  return hostname.includes(".") ? `.${getPublicSuffix(hostname)}` : "";
 }
 
 /**
- * Validate a domain name
+ * Validate a domain name (same rules as the Convex entry points, IDNs included)
  */
 export function isValidDomain(domain: string): boolean {
-  const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z]{2,})+$/;
-  return domainRegex.test(domain);
+  return parseDomain(domain).ok;
 }
@@ -1,11 +1,37 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { Bookmark, ExternalLink, Trash2, Check, X, ArrowLeft } from "lucide-react";
-import { useQuery, useMutation } from "convex/react";
+import { useState } from "react";
+import {
+  Bookmark,
+  Scale,
+  Trash2,
+  Check,
+  X,
+  ArrowLeft,
+  HelpCircle,
+  Lock,
+  RefreshCw,
+  Eye,
+  Hourglass,
+  Sparkles,
+} from "lucide-react";
+import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
 
 import { cn } from "../lib/utils";
 import { useUser } from "../lib/user-context";
+import {
+  DomainName,
+  PremiumBadge,
+  PriceComparisonDrawer,
+  PriceSummary,
+  SimulatedBadge,
+} from "../components/domains";
+import type { DomainPricing, DomainStatus, PremiumReason } from "../types/chat";
+import {
+  DEFAULT_RECHECK_INTERVAL_DAYS,
+  RECHECK_INTERVAL_OPTIONS_DAYS,
+} from "../../convex/lib/recheckInterval";
 
 export const Route = createFileRoute("/saved")({
   component: SavedDomainsPage,
@@ -20,12 +46,42 @@ function SavedDomainsPage(): JSX.Element {
     userId ? { userId } : "skip"
   );
 
+  const watchedDomains = useQuery(api.watchlist.listByUser, userId ? { userId } : "skip");
+  const user = useQuery(api.users.getById, userId ? { userId } : "skip");
+
+  const updateRecheckInterval = useMutation(api.users.updateRecheckInterval);
+  const acknowledgeChange = useMutation(api.domains.acknowledgeChange);
   const removeDomain = useMutation(api.domains.remove);
+  const watchDomain = useMutation(api.watchlist.watch);
+  const unwatchDomain = useMutation(api.watchlist.unwatch);
+  const recheckDomain = useAction(api.actions.recheckSavedDomain);
 
   const handleRemove = async (domainId: Id<"savedDomains">): Promise<void> => {
     await removeDomain({ domainId });
   };
 
+  const handleRecheck = async (domainId: Id<"savedDomains">): Promise<void> => {
+    await recheckDomain({ domainId });
+  };
+
+  const handleIntervalChange = (days: number): void => {
+    if (!userId) return;
+    updateRecheckInterval({ userId, days }).catch((err) => {
+      console.error("Failed to update re-check interval:", err);
+    });
+  };
+
+  const handleWatch = async (domain: string): Promise<void> => {
+    if (!userId) return;
+    await watchDomain({ userId, domain });
+  };
+
+  const domains: Doc<"savedDomains">[] = savedDomains ?? [];
+  const watched: Doc<"watchedDomains">[] = watchedDomains ?? [];
+  const watchedNames = new Set(watched.map((domain) => domain.domain));
+  const verified = domains.filter((domain) => statusOf(domain) !== "unknown");
+  const unknown = domains.filter((domain) => statusOf(domain) === "unknown");
+
   if (userLoading) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -53,6 +109,22 @@ function SavedDomainsPage(): JSX.Element {
             {savedDomains?.length ?? 0} domains saved
           </p>
         </div>
+        <label className="ml-auto flex items-center gap-2 text-sm text-text-secondary">
+          <RefreshCw className="h-4 w-4" />
+          Re-check every
+          <select
+            value={user?.recheckIntervalDays ?? DEFAULT_RECHECK_INTERVAL_DAYS}
+            onChange={(e) => handleIntervalChange(Number(e.target.value))}
+            disabled={!userId}
+            className="rounded-default border border-border bg-surface px-1.5 py-0.5 text-xs text-text"
+          >
+            {RECHECK_INTERVAL_OPTIONS_DAYS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? "day" : `${days} days`}
+              </option>
+            ))}
+          </select>
+        </label>
       </header>
 
       {/* Content */}
@@ -61,37 +133,169 @@ function SavedDomainsPage(): JSX.Element {
           {!savedDomains || savedDomains.length === 0 ? (
             <EmptyState />
           ) : (
-            <div className="space-y-3">
-              {savedDomains.map((domain) => (
-                <DomainCard
-                  key={domain._id}
-                  domain={domain}
-                  onRemove={() => handleRemove(domain._id)}
-                />
-              ))}
+            <div className="space-y-6">
+              {verified.length > 0 && (
+                <div className="space-y-3">
+                  {verified.map((domain) => (
+                    <DomainCard
+                      key={domain._id}
+                      domain={domain}
+                      onRemove={() => handleRemove(domain._id)}
+                      onRecheck={() => handleRecheck(domain._id)}
+                      onAcknowledge={() => acknowledgeChange({ domainId: domain._id })}
+                      onWatch={
+                        statusOf(domain) === "taken" && !watchedNames.has(domain.domain)
+                          ? () => handleWatch(domain.domain)
+                          : undefined
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Last check didn't get an answer from any provider */}
+              {unknown.length > 0 && (
+                <section>
+                  <h2 className="mb-3 flex items-center gap-2 text-sm font-medium text-warning">
+                    <HelpCircle className="h-4 w-4" />
+                    Couldn't verify
+                  </h2>
+                  <div className="space-y-3">
+                    {unknown.map((domain) => (
+                      <DomainCard
+                        key={domain._id}
+                        domain={domain}
+                        onRemove={() => handleRemove(domain._id)}
+                        onRecheck={() => handleRecheck(domain._id)}
+                        onAcknowledge={() => acknowledgeChange({ domainId: domain._id })}
+                      />
+                    ))}
+                  </div>
+                </section>
+              )}
             </div>
           )}
+
+          {/* Taken domains the watchlist cron keeps an eye on */}
+          {watched.length > 0 && (
+            <section className="mt-8">
+              <h2 className="mb-3 flex items-center gap-2 text-sm font-medium text-text-secondary">
+                <Eye className="h-4 w-4" />
+                Watching for drops
+              </h2>
+              <div className="space-y-3">
+                {watched.map((domain) => (
+                  <WatchedDomainCard
+                    key={domain._id}
+                    domain={domain}
+                    onUnwatch={() => unwatchDomain({ watchedDomainId: domain._id })}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+interface WatchedDomainCardProps {
+  domain: Doc<"watchedDomains">;
+  onUnwatch: () => void;
+}
+
+function WatchedDomainCard({ domain, onUnwatch }: WatchedDomainCardProps): JSX.Element {
+  const dropping =
+    domain.registryStatuses?.includes("pendingDelete") ||
+    domain.registryStatuses?.includes("redemptionPeriod");
+
+  return (
+    <div className="group flex items-start justify-between gap-4 rounded-xl border border-border bg-surface p-4">
+      <div className="min-w-0 flex-1">
+        <div className="mb-1.5 flex items-center gap-3">
+          <h3 className="truncate text-base font-semibold">
+            <DomainName domain={domain.domain} />
+          </h3>
+          {domain.status === "available" ? (
+            <span className="flex items-center gap-1 rounded-full bg-success/10 px-2 py-0.5 text-xs font-medium text-success">
+              <Check className="h-3 w-3" /> Dropped
+            </span>
+          ) : dropping ? (
+            <span className="flex items-center gap-1 rounded-full bg-warning/10 px-2 py-0.5 text-xs font-medium text-warning">
+              <Hourglass className="h-3 w-3" /> Dropping soon
+            </span>
+          ) : null}
+        </div>
+        <div className="space-y-1 text-sm text-text-secondary">
+          {domain.expiresAt && (
+            <p>Expires {new Date(domain.expiresAt).toLocaleDateString()}</p>
+          )}
+          {domain.registrar && <p className="truncate">Registrar: {domain.registrar}</p>}
+          <p className="text-xs">
+            {domain.lastCheckedAt ? `Checked ${formatTimeAgo(domain.lastCheckedAt)}` : "Not checked yet"}
+          </p>
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={onUnwatch}
+        className={cn(
+          "rounded-lg p-2 opacity-0 transition-all group-hover:opacity-100",
+          "text-text-secondary hover:bg-error/10 hover:text-error"
+        )}
+        title="Stop watching"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
 interface DomainCardProps {
   domain: {
     _id: Id<"savedDomains">;
     domain: string;
     tld: string;
     available: boolean;
+    status?: DomainStatus;
+    premium?: boolean;
+    premiumReason?: PremiumReason;
+    pricing?: DomainPricing;
+    simulated?: boolean;
     checkedAt: number;
+    previousStatus?: DomainStatus;
+    statusChangedAt?: number;
     projectIdea?: string;
     notes?: string;
   };
   onRemove: () => void;
+  onRecheck: () => Promise<void>;
+  onAcknowledge: () => void;
+  // Offered for taken domains that aren't on the watchlist yet
+  onWatch?: () => Promise<void>;
 }
 
-function DomainCard({ domain, onRemove }: DomainCardProps): JSX.Element {
+function DomainCard({
+  domain,
+  onRemove,
+  onRecheck,
+  onAcknowledge,
+  onWatch,
+}: DomainCardProps): JSX.Element {
+  const [isRechecking, setIsRechecking] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
   const timeAgo = formatTimeAgo(domain.checkedAt);
+  const status = statusOf(domain);
+
+  const handleRecheck = async (): Promise<void> => {
+    setIsRechecking(true);
+    try {
+      await onRecheck();
+    } finally {
+      setIsRechecking(false);
+    }
+  };
 
   return (
     <div
@@ -103,27 +307,53 @@ function DomainCard({ domain, onRemove }: DomainCardProps): JSX.Element {
       <div className="flex items-start justify-between gap-4">
         <div className="flex-1 min-w-0">
           <div className="mb-1.5 flex items-center gap-3">
-            <h3 className="truncate text-base font-semibold">{domain.domain}</h3>
+            <h3 className="truncate text-base font-semibold">
+            <DomainName domain={domain.domain} />
+          </h3>
             <span
               className={cn(
                 "flex flex-shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium",
-                domain.available
-                  ? "bg-success/10 text-success"
-                  : "bg-error/10 text-error"
+                STATUS_BADGE_CLASSES[status]
               )}
             >
-              {domain.available ? (
+              {status === "available" ? (
                 <>
                   <Check className="h-3 w-3" /> Available
                 </>
+              ) : status === "reserved" ? (
+                <>
+                  <Lock className="h-3 w-3" /> Reserved
+                </>
+              ) : status === "unknown" ? (
+                <>
+                  <HelpCircle className="h-3 w-3" /> Unknown
+                </>
               ) : (
                 <>
                   <X className="h-3 w-3" /> Taken
                 </>
               )}
             </span>
+            {domain.premium && status === "available" && (
+              <PremiumBadge reason={domain.premiumReason} className="flex-shrink-0" />
+            )}
+            {domain.simulated && <SimulatedBadge className="flex-shrink-0" />}
+            {domain.previousStatus && domain.statusChangedAt && (
+              <button
+                type="button"
+                onClick={onAcknowledge}
+                className="flex flex-shrink-0 items-center gap-1 rounded-full bg-accent/10 px-2 py-0.5 text-xs font-medium text-accent hover:bg-accent/20"
+                title={`Changed ${formatTimeAgo(domain.statusChangedAt)} - click to dismiss`}
+              >
+                <Sparkles className="h-3 w-3" /> Changed (was {domain.previousStatus})
+              </button>
+            )}
           </div>
 
+          {domain.pricing && status === "available" && (
+            <PriceSummary pricing={domain.pricing} className="mb-1.5" />
+          )}
+
           <div className="space-y-1 text-sm text-text-secondary">
             {domain.projectIdea && (
               <p className="truncate">
@@ -139,19 +369,49 @@ function DomainCard({ domain, onRemove }: DomainCardProps): JSX.Element {
           </div>
         </div>
 
-        <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
-          <a
-            href={`https://www.namecheap.com/domains/registration/results/?domain=${domain.domain}`}
-            target="_blank"
-            rel="noopener noreferrer"
+        <div
+          className={cn(
+            "flex gap-1 transition-opacity",
+            // Keep the retry visible for unverified domains
+            status !== "unknown" && "opacity-0 group-hover:opacity-100"
+          )}
+        >
+          <button
+            type="button"
+            onClick={handleRecheck}
+            disabled={isRechecking}
+            className={cn(
+              "rounded-lg p-2 transition-colors disabled:opacity-50",
+              "text-text-secondary hover:bg-primary/10 hover:text-primary"
+            )}
+            title="Check again"
+          >
+            <RefreshCw className={cn("h-4 w-4", isRechecking && "animate-spin")} />
+          </button>
+          {onWatch && (
+            <button
+              type="button"
+              onClick={onWatch}
+              className={cn(
+                "rounded-lg p-2 transition-colors",
+                "text-text-secondary hover:bg-primary/10 hover:text-primary"
+              )}
+              title="Watch for expiry and drop"
+            >
+              <Eye className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsComparing(true)}
             className={cn(
               "rounded-lg p-2 transition-colors",
               "text-text-secondary hover:bg-primary/10 hover:text-primary"
             )}
-            title="Check on registrar"
+            title="Compare registrar prices"
           >
-            <ExternalLink className="h-4 w-4" />
-          </a>
+            <Scale className="h-4 w-4" />
+          </button>
           <button
             type="button"
             onClick={onRemove}
@@ -165,10 +425,26 @@ function DomainCard({ domain, onRemove }: DomainCardProps): JSX.Element {
           </button>
         </div>
       </div>
+
+      {isComparing && (
+        <PriceComparisonDrawer domain={domain.domain} onClose={() => setIsComparing(false)} />
+      )}
     </div>
   );
 }
 
+const STATUS_BADGE_CLASSES: Record<DomainStatus, string> = {
+  available: "bg-success/10 text-success",
+  taken: "bg-error/10 text-error",
+  reserved: "bg-warning/10 text-warning",
+  unknown: "bg-border text-text-secondary",
+};
+
+// Rows saved before tri-state results only have the boolean
+function statusOf(domain: { available: boolean; status?: DomainStatus }): DomainStatus {
+  return domain.status ?? (domain.available ? "available" : "taken");
+}
+
 function EmptyState(): JSX.Element {
   return (
     <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-border py-16">
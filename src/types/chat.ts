@@ -1,9 +1,32 @@
+import type { DomainPricing } from "../../convex/lib/pricing";
+
+export type { DomainPricing } from "../../convex/lib/pricing";
+
+// unknown = no provider could answer; reserved = held by the registry
+export type DomainStatus = "available" | "taken" | "unknown" | "reserved";
+
+// Why a name costs more than the TLD's standard price
+export type PremiumReason = "registry_premium" | "aftermarket" | "price_class";
+
 export interface DomainResult {
+  // ASCII (punycode) form; render with DomainName to show IDNs in Unicode
   domain: string;
-  available: boolean;
+  unicode?: string;
+  status: DomainStatus;
   premium: boolean;
+  premiumReason?: PremiumReason;
   price?: number;
+  // First-year/renewal/transfer prices in the registrar's currency
+  pricing?: DomainPricing;
   errorMessage?: string;
+  // Source of the answer (registrar, registry or "mock")
+  provider?: string;
+  // Made up by the mock provider
+  simulated?: boolean;
+  // false = registry has no record, but no registrar confirmed it can be bought
+  definitive?: boolean;
+  registrar?: string;
+  expiresAt?: number;
 }
 
 export interface ToolCall {
@@ -26,6 +49,8 @@ export interface Message {
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
   domainResults?: DomainResult[];
+  // Background check job for candidates beyond the inline limit
+  domainCheckJobId?: string;
 }
 
 export interface Conversation {
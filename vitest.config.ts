@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts so specs run without the app's Start, Nitro and devtools plugins
+export default defineConfig({
+  test: {
+    include: ["convex/**/*.test.ts", "src/**/*.test.{ts,tsx}"],
+    environment: "node",
+  },
+});